@@ -0,0 +1,587 @@
+/**
+ * Diagnostics.ts
+ *
+ * This file provides the checks behind the diagnostics report
+ * (**Simple Icons: Diagnose**). The settings are checked for icon names that
+ * are not registered, mappings and rules missing their key or icon, duplicate
+ * tag mappings and folder icons, folder mappings that another folder mapping
+ * wins over for all of their files, and rules that can never provide an
+ * icon because an earlier rule matches all of their files.
+ * Every file in the vault is checked for icon names written in the file
+ * itself (frontmatter, inline fields, or a registered provider) that are not
+ * registered. Icon names that only work after normalization ("Home" for
+ * "home") are listed too, so they can be cleaned up.
+ */
+
+import { App, TFile } from "obsidian"
+import { resolveIconAlias } from "./IconAliases"
+import { normalizeIconName } from "./IconName"
+import { IconResolver } from "./IconResolver"
+import {
+  comparePathMatches,
+  isGlobPattern,
+  matchPath,
+  normalizePath,
+  normalizeTag,
+  PathMatch,
+} from "./matchers"
+import {
+  Diagnostic,
+  DiagnosticKind,
+  DiagnosticSetting,
+  ExtensionMapping,
+  FolderMapping,
+  IconRule,
+  PluginSettings,
+  RuleCondition,
+} from "./types"
+
+/** Number of files checked between pauses while scanning the vault */
+const SCAN_BATCH_SIZE = 200
+
+/** File and folder name used in the sample paths of folder mappings */
+const SAMPLE_NAME = "~sample~"
+
+/**
+ * Sources whose icons come from the settings, which are checked once there
+ * rather than for every file. Folder note icons are reported on the folder
+ * note itself.
+ */
+const SETTINGS_SOURCES = new Set([
+  "rules",
+  "properties",
+  "tags",
+  "extensions",
+  "folderNotes",
+  "folders",
+])
+
+/**
+ * Runs all checks of the diagnostics report
+ *
+ * @param app - The Obsidian App instance
+ * @param resolver - The icon resolver, used to validate icon names and to
+ *   explain the icon of each file
+ * @param settings - The plugin settings
+ * @returns The problems found, settings first, then files by path
+ */
+export async function runDiagnostics(
+  app: App,
+  resolver: IconResolver,
+  settings: PluginSettings
+): Promise<Diagnostic[]> {
+  return [
+    ...diagnoseSettings(settings, icon => resolver.isKnownIcon(icon)),
+    ...(await diagnoseFiles(app, resolver)),
+  ]
+}
+
+/**
+ * Checks every file in the vault for unknown and normalized icon names
+ *
+ * Files are checked in batches, pausing in between so that the interface
+ * stays responsive in large vaults.
+ *
+ * @param app - The Obsidian App instance
+ * @param resolver - The icon resolver
+ * @returns One diagnostic per source naming an unknown or normalized icon
+ *   for a file
+ */
+async function diagnoseFiles(
+  app: App,
+  resolver: IconResolver
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = []
+  const files = app.vault
+    .getFiles()
+    .sort((a: TFile, b: TFile) => a.path.localeCompare(b.path))
+
+  for (const [i, file] of files.entries()) {
+    for (const step of resolver.explainIconForFile(file).steps) {
+      if (SETTINGS_SOURCES.has(step.source)) continue
+
+      const location = { type: "file" as const, path: file.path }
+      if (step.status === "invalid") {
+        diagnostics.push({
+          kind: "invalid-icon",
+          message: `${file.path}: ${step.detail}`,
+          location,
+        })
+        continue
+      }
+
+      const normalized = step.written && normalizeIconName(step.written)
+      if (step.written && normalized !== step.written) {
+        diagnostics.push({
+          kind: "normalized-icon",
+          message: `${file.path}: "${step.written}" is read as "${normalized}" (${step.name})`,
+          location,
+        })
+      }
+    }
+
+    if ((i + 1) % SCAN_BATCH_SIZE === 0) {
+      await new Promise(resolve => window.setTimeout(resolve, 0))
+    }
+  }
+  return diagnostics
+}
+
+/**
+ * Checks the mappings, rules, and icon settings
+ *
+ * @param settings - The plugin settings
+ * @param isKnownIcon - Checks whether an icon name (with aliases replaced)
+ *   can be rendered
+ * @returns The problems found, in the order of the settings
+ */
+export function diagnoseSettings(
+  settings: PluginSettings,
+  isKnownIcon: (icon: string) => boolean
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const report = (
+    kind: DiagnosticKind,
+    message: string,
+    setting: DiagnosticSetting,
+    index?: number
+  ) => {
+    diagnostics.push({
+      kind,
+      message,
+      location: { type: "setting", setting, index },
+    })
+  }
+  const checkIcon = (
+    icon: string | undefined,
+    label: string,
+    setting: DiagnosticSetting,
+    index?: number
+  ) => {
+    if (!icon || icon.trim() === "") return
+    const written = icon.trim()
+    const normalized = normalizeIconName(written)
+    if (!isKnownIcon(resolveIconAlias(written, settings))) {
+      report(
+        "invalid-icon",
+        `${label}: unknown icon "${written}"`,
+        setting,
+        index
+      )
+    } else if (normalized !== written) {
+      report(
+        "normalized-icon",
+        `${label}: "${written}" is read as "${normalized}"`,
+        setting,
+        index
+      )
+    }
+  }
+  const checkEmpty = (
+    missing: string | null,
+    label: string,
+    setting: DiagnosticSetting,
+    index: number
+  ) => {
+    if (missing) {
+      report("empty-mapping", `${label} has no ${missing}`, setting, index)
+    }
+  }
+
+  // Tag mappings, with duplicates reported on the later mapping. A later
+  // non-exact mapping still applies to nested tags, so only an earlier
+  // non-exact mapping of the same tag makes it unused.
+  const firstMappings = new Map<string, number>()
+  const firstNestedMappings = new Map<string, number>()
+  settings.tagMappings.forEach((mapping, index) => {
+    const tag = normalizeTag(mapping.tag)
+    const label = `Tag mapping ${index + 1}: #${tag}`
+    checkEmpty(
+      tag === "" ? "tag" : isBlank(mapping.icon) ? "icon" : null,
+      `Tag mapping ${index + 1}`,
+      "tagMappings",
+      index
+    )
+    checkIcon(mapping.icon, label, "tagMappings", index)
+
+    if (tag === "" || isBlank(mapping.icon)) return
+    const first = mapping.exactMatch
+      ? firstMappings.get(tag)
+      : firstNestedMappings.get(tag)
+    if (first !== undefined) {
+      report(
+        "duplicate-tag",
+        `${label} is never used: tag mapping ${first + 1} maps the same tag`,
+        "tagMappings",
+        index
+      )
+    }
+    if (!firstMappings.has(tag)) firstMappings.set(tag, index)
+    if (!mapping.exactMatch && !firstNestedMappings.has(tag)) {
+      firstNestedMappings.set(tag, index)
+    }
+  })
+
+  // Folder mappings, with a mapping reported when another one wins for all
+  // of its files (see findShadowingFolderMapping)
+  settings.folderMappings.forEach((mapping, index) => {
+    const label = `Folder mapping ${index + 1}: ${mapping.path || "/"}`
+    checkEmpty(
+      isBlank(mapping.icon) ? "icon" : null,
+      label,
+      "folderMappings",
+      index
+    )
+    checkIcon(mapping.icon, label, "folderMappings", index)
+    checkIcon(mapping.openIcon, `${label} (open)`, "folderMappings", index)
+
+    const shadowing = findShadowingFolderMapping(settings.folderMappings, index)
+    if (shadowing !== -1) {
+      report(
+        "shadowed-folder",
+        `${label} is never used: folder mapping ${shadowing + 1} takes precedence for all of its files`,
+        "folderMappings",
+        index
+      )
+    }
+  })
+
+  // Folder icons, of which the first one for a folder is used
+  const folderIconPaths = new Set<string>()
+  settings.folderIcons.forEach((entry, index) => {
+    const path = normalizePath(entry.path)
+    const label = `Folder icon for ${path || "/"}`
+    checkEmpty(isBlank(entry.icon) ? "icon" : null, label, "folderIcons", index)
+    checkIcon(entry.icon, label, "folderIcons", index)
+    checkIcon(entry.openIcon, `${label} (open)`, "folderIcons", index)
+
+    if (isBlank(entry.icon)) return
+    if (folderIconPaths.has(path)) {
+      report(
+        "shadowed-folder",
+        `${label} is never used: an earlier folder icon is set on the same folder`,
+        "folderIcons",
+        index
+      )
+    } else {
+      folderIconPaths.add(path)
+    }
+  })
+
+  settings.propertyMappings.forEach((mapping, index) => {
+    const label = `Property mapping ${index + 1}: ${mapping.property}`
+    checkEmpty(
+      isBlank(mapping.property)
+        ? "property"
+        : isBlank(mapping.icon)
+          ? "icon"
+          : null,
+      `Property mapping ${index + 1}`,
+      "propertyMappings",
+      index
+    )
+    checkIcon(mapping.icon, label, "propertyMappings", index)
+  })
+
+  const extensionLists: [ExtensionMapping[], string, DiagnosticSetting][] = [
+    [settings.extensionMappings, "Extension mapping", "extensionMappings"],
+    [settings.fallbackMappings, "Fallback mapping", "fallbackMappings"],
+  ]
+  for (const [mappings, name, setting] of extensionLists) {
+    mappings.forEach((mapping, index) => {
+      const label = `${name} ${index + 1}: ${mapping.extension}`
+      checkEmpty(
+        isBlank(mapping.extension)
+          ? "extension"
+          : isBlank(mapping.icon)
+            ? "icon"
+            : null,
+        `${name} ${index + 1}`,
+        setting,
+        index
+      )
+      checkIcon(mapping.icon, label, setting, index)
+    })
+  }
+
+  diagnoseRules(settings.rules, "Rule", "rules", report, checkIcon)
+  diagnoseRules(
+    settings.badgeRules,
+    "Badge rule",
+    "badgeRules",
+    report,
+    checkIcon
+  )
+
+  settings.iconAliases.forEach((entry, index) => {
+    const label = `Icon alias ${index + 1}: ${entry.alias}`
+    checkEmpty(
+      isBlank(entry.alias) ? "alias" : isBlank(entry.icon) ? "icon" : null,
+      `Icon alias ${index + 1}`,
+      "iconAliases",
+      index
+    )
+    checkIcon(entry.icon, label, "iconAliases", index)
+  })
+
+  if (settings.enableFallbackIcon) {
+    checkIcon(settings.fallbackIcon, "Fallback icon", "fallbackIcon")
+  }
+  if (settings.enableUnresolvedLinkIcon) {
+    checkIcon(
+      settings.unresolvedLinkIcon,
+      "Unresolved link icon",
+      "unresolvedLinkIcon"
+    )
+  }
+
+  return diagnostics
+}
+
+/**
+ * Checks a list of icon or badge rules
+ *
+ * Reports rules without an icon or conditions, unknown icons, and enabled
+ * rules shadowed by an earlier enabled rule (see conditionImplies).
+ */
+function diagnoseRules(
+  rules: IconRule[],
+  name: string,
+  setting: DiagnosticSetting,
+  report: (
+    kind: DiagnosticKind,
+    message: string,
+    setting: DiagnosticSetting,
+    index?: number
+  ) => void,
+  checkIcon: (
+    icon: string | undefined,
+    label: string,
+    setting: DiagnosticSetting,
+    index?: number
+  ) => void
+): void {
+  const label = (rule: IconRule, index: number) =>
+    rule.name ? `${name} ${index + 1} "${rule.name}"` : `${name} ${index + 1}`
+
+  rules.forEach((rule, index) => {
+    if (isBlank(rule.icon)) {
+      report(
+        "empty-mapping",
+        `${label(rule, index)} has no icon`,
+        setting,
+        index
+      )
+    } else if (rule.condition.conditions.length === 0) {
+      report(
+        "empty-mapping",
+        `${label(rule, index)} has no conditions`,
+        setting,
+        index
+      )
+    }
+    checkIcon(rule.icon, label(rule, index), setting, index)
+
+    if (!isActiveRule(rule)) return
+    const shadowing = rules.findIndex(
+      (earlier, i) =>
+        i < index &&
+        isActiveRule(earlier) &&
+        conditionImplies(rule.condition, earlier.condition)
+    )
+    if (shadowing !== -1) {
+      report(
+        "shadowed-rule",
+        `${label(rule, index)} is never used: ${label(
+          rules[shadowing],
+          shadowing
+        ).toLowerCase()} matches all of its files`,
+        setting,
+        index
+      )
+    }
+  })
+}
+
+/**
+ * Checks whether a rule is evaluated: enabled, with an icon and conditions
+ */
+function isActiveRule(rule: IconRule): boolean {
+  return (
+    !rule.disabled &&
+    !isBlank(rule.icon) &&
+    rule.condition.conditions.length > 0
+  )
+}
+
+/**
+ * Checks whether every file matching one condition also matches another
+ *
+ * This is a conservative check: identical conditions, tags nested below a
+ * mapped tag, and AND / OR groups are recognized, so a true result is always
+ * correct, but some implications are missed.
+ *
+ * @param a - The condition of the later rule
+ * @param b - The condition of the earlier rule
+ * @returns True if a file matching a is known to match b
+ */
+function conditionImplies(a: RuleCondition, b: RuleCondition): boolean {
+  if (isEmptyGroup(a) || isEmptyGroup(b)) return false
+  if (JSON.stringify(a) === JSON.stringify(b)) return true
+
+  if (a.type === "tag" && b.type === "tag" && !a.negate && !b.negate) {
+    const tag = normalizeTag(a.tag)
+    const mapped = normalizeTag(b.tag)
+    if (b.exactMatch) return a.exactMatch === true && tag === mapped
+    return tag === mapped || tag.startsWith(mapped + "/")
+  }
+
+  if (b.type === "group" && !b.negate) {
+    if (b.operator === "all") {
+      return b.conditions.every(child => conditionImplies(a, child))
+    }
+    if (b.conditions.some(child => conditionImplies(a, child))) return true
+  }
+
+  if (a.type === "group" && !a.negate) {
+    return a.operator === "all"
+      ? a.conditions.some(child => conditionImplies(child, b))
+      : a.conditions.every(child => conditionImplies(child, b))
+  }
+
+  return false
+}
+
+/**
+ * Finds a folder mapping that wins over another one for all of its files
+ *
+ * Like FolderProvider, the most specific match wins and earlier mappings
+ * win ties (see comparePathMatches). Every mapping is compared on sample
+ * paths standing in for what it matches (see getFolderMappingSamples), so
+ * a parent folder mapping never hides one for a subfolder, while a glob or
+ * regular expression covering the same folders as a later mapping does.
+ * Mappings that cannot be sampled are only compared with mappings of the
+ * same path.
+ *
+ * @param mappings - The folder mappings
+ * @param index - The index of the mapping to check
+ * @returns The index of the winning mapping, or -1 if the mapping is used
+ */
+function findShadowingFolderMapping(
+  mappings: FolderMapping[],
+  index: number
+): number {
+  const mapping = mappings[index]
+  if (isBlank(mapping.icon)) return -1
+
+  const samples = getFolderMappingSamples(mapping)
+  if (!samples) {
+    const key = getFolderMappingKey(mapping)
+    return mappings.findIndex(
+      (other, i) =>
+        i < index &&
+        !isBlank(other.icon) &&
+        Boolean(other.regex) === Boolean(mapping.regex) &&
+        getFolderMappingKey(other) === key
+    )
+  }
+
+  const matches: PathMatch[] = []
+  for (const sample of samples) {
+    const match = matchPath(sample, mapping)
+    if (!match) return -1
+    matches.push(match)
+  }
+
+  return mappings.findIndex(
+    (other, i) =>
+      i !== index &&
+      !isBlank(other.icon) &&
+      samples.every((sample, s) => {
+        const match = matchPath(sample, other)
+        if (!match) return false
+        const order = comparePathMatches(match, matches[s])
+        return order > 0 || (order === 0 && i < index)
+      })
+  )
+}
+
+/**
+ * Returns the path of a folder mapping as it is compared
+ */
+function getFolderMappingKey(mapping: FolderMapping): string {
+  return mapping.regex ? mapping.path.trim() : normalizePath(mapping.path)
+}
+
+/**
+ * Returns sample paths standing in for the files a folder mapping matches
+ *
+ * Each folder the mapping names gets samples for the folder itself and for
+ * files (with and without extension) and subfolders inside it. Glob
+ * wildcards and "**" are filled in with an unusual name, and each
+ * alternative of a "{a,b}" group gets its own samples. The path written in
+ * the mapping is sampled too, since a glob pattern also matches a folder
+ * with that literal name.
+ *
+ * @param mapping - The folder mapping
+ * @returns The sample paths, or null for regular expressions and glob
+ *   character classes, which cannot be sampled
+ */
+function getFolderMappingSamples(mapping: FolderMapping): string[] | null {
+  if (mapping.regex) return null
+  const path = normalizePath(mapping.path)
+  if (/[[\]]/.test(path)) return null
+
+  // Folder names cannot contain "*" or "?", so such paths are never literal
+  const folders = new Set(/[*?]/.test(path) ? [] : [path])
+  if (isGlobPattern(path)) {
+    expandGlob(path).forEach(folder => folders.add(folder))
+  }
+
+  return Array.from(folders).flatMap(folder => {
+    const prefix = folder === "" ? "" : folder + "/"
+    return [
+      ...(folder === "" ? [] : [folder]),
+      prefix + SAMPLE_NAME,
+      `${prefix}${SAMPLE_NAME}.md`,
+      `${prefix}${SAMPLE_NAME}/${SAMPLE_NAME}.md`,
+    ]
+  })
+}
+
+/**
+ * Fills in the wildcards of a glob pattern (see getFolderMappingSamples)
+ *
+ * @param glob - The normalized glob pattern, without character classes
+ * @returns Paths matched by the pattern
+ */
+function expandGlob(glob: string): string[] {
+  const group = /\{([^{}]*)\}/.exec(glob)
+  if (group) {
+    const before = glob.slice(0, group.index)
+    const after = glob.slice(group.index + group[0].length)
+    return group[1]
+      .split(",")
+      .flatMap(option => expandGlob(before + option + after))
+  }
+
+  const fill = (path: string) =>
+    path.replace(/\*+/g, SAMPLE_NAME).replace(/\?/g, "~")
+  // "**/" also matches no folder at all
+  return [fill(glob), fill(glob.replace(/\*\*\//g, ""))]
+}
+
+/**
+ * Checks whether a condition is a group without conditions, which never
+ * matches
+ */
+function isEmptyGroup(condition: RuleCondition): boolean {
+  return condition.type === "group" && condition.conditions.length === 0
+}
+
+/**
+ * Checks whether a setting value is missing or only whitespace
+ */
+function isBlank(value: string | undefined): boolean {
+  return !value || value.trim() === ""
+}
@@ -0,0 +1,117 @@
+/**
+ * DiagnosticsModal.ts
+ *
+ * This file provides the modal showing the diagnostics report: the problems
+ * found in the settings and the vault (see Diagnostics.ts), grouped by kind.
+ * Each problem has a button that opens the file or setting it was found in.
+ */
+
+import { App, Modal } from "obsidian"
+import { Diagnostic, DiagnosticKind, DiagnosticLocation } from "./types"
+
+/**
+ * Headings for each kind of problem, in the order they are listed
+ */
+const KIND_LABELS: Record<DiagnosticKind, string> = {
+  "invalid-icon": "Unknown icons",
+  "empty-mapping": "Empty mappings",
+  "duplicate-tag": "Duplicate tags",
+  "shadowed-rule": "Shadowed rules",
+  "shadowed-folder": "Shadowed folders",
+  "normalized-icon": "Normalized icon names",
+}
+
+/**
+ * Modal listing the problems found by the diagnostics report
+ */
+export class DiagnosticsModal extends Modal {
+  private diagnostics: Diagnostic[]
+  private onOpenLocation: (location: DiagnosticLocation) => void
+
+  /**
+   * Creates a new diagnostics modal
+   *
+   * @param app - The Obsidian App instance
+   * @param diagnostics - The problems to list (see runDiagnostics)
+   * @param onOpenLocation - Opens the file or setting of a problem
+   */
+  constructor(
+    app: App,
+    diagnostics: Diagnostic[],
+    onOpenLocation: (location: DiagnosticLocation) => void
+  ) {
+    super(app)
+    this.diagnostics = diagnostics
+    this.onOpenLocation = onOpenLocation
+  }
+
+  /**
+   * Opens the modal and renders the report
+   */
+  onOpen(): void {
+    const { contentEl } = this
+    contentEl.empty()
+    contentEl.addClass("diagnostics-modal")
+
+    contentEl.createEl("h2", { text: "Icon diagnostics" })
+
+    if (this.diagnostics.length === 0) {
+      contentEl.createEl("p", {
+        text: "No problems found in the settings or the vault.",
+        cls: "diagnostics-empty",
+      })
+    }
+
+    for (const kind of Object.keys(KIND_LABELS) as DiagnosticKind[]) {
+      const diagnostics = this.diagnostics.filter(d => d.kind === kind)
+      if (diagnostics.length === 0) continue
+
+      contentEl.createEl("h4", {
+        text: `${KIND_LABELS[kind]} (${diagnostics.length})`,
+      })
+      const listEl = contentEl.createDiv({ cls: "diagnostics-list" })
+      diagnostics.forEach(diagnostic =>
+        this.renderDiagnostic(listEl, diagnostic)
+      )
+    }
+
+    const footer = contentEl.createDiv({ cls: "tag-mapping-modal-footer" })
+    footer.createDiv({
+      text: `${this.diagnostics.length} problem(s) found`,
+      cls: "tag-mapping-status-bar",
+    })
+    const closeButton = footer.createEl("button", {
+      text: "Close",
+      cls: "mod-cta",
+    })
+    closeButton.addEventListener("click", () => this.close())
+  }
+
+  /**
+   * Renders a single problem with a button to open its source
+   */
+  private renderDiagnostic(
+    containerEl: HTMLElement,
+    diagnostic: Diagnostic
+  ): void {
+    const rowEl = containerEl.createDiv({
+      cls: `diagnostics-row is-${diagnostic.kind}`,
+    })
+    rowEl.createSpan({ text: diagnostic.message, cls: "diagnostics-message" })
+
+    const openButton = rowEl.createEl("button", {
+      text: diagnostic.location.type === "file" ? "Open file" : "Open setting",
+    })
+    openButton.addEventListener("click", () => {
+      this.close()
+      this.onOpenLocation(diagnostic.location)
+    })
+  }
+
+  /**
+   * Closes the modal
+   */
+  onClose(): void {
+    this.contentEl.empty()
+  }
+}
@@ -7,8 +7,10 @@ import {
   ViewUpdate,
   WidgetType,
 } from "@codemirror/view"
-import { App, editorLivePreviewField, editorViewField, setIcon } from "obsidian"
+import { App, editorLivePreviewField, editorViewField } from "obsidian"
+import { IconElementFactory } from "./IconElementFactory"
 import { IconResolver } from "./IconResolver"
+import { PluginSettings, ResolvedIcon } from "./types"
 
 // @ts-ignore - syntaxTree is available via Obsidian's CodeMirror
 import { syntaxTree } from "@codemirror/language"
@@ -39,7 +41,10 @@ const refreshIconsEffect = StateEffect.define<void>()
  * wikilinks to indicate the type of file being linked to.
  */
 class IconWidget extends WidgetType {
-  constructor(private iconName: string) {
+  constructor(
+    private resolved: ResolvedIcon,
+    private showTooltip: boolean
+  ) {
     super()
   }
 
@@ -48,10 +53,27 @@ class IconWidget extends WidgetType {
    * @returns HTMLElement containing the rendered icon
    */
   toDOM(): HTMLElement {
-    const span = document.createElement("span")
-    span.addClass("file-icon")
-    setIcon(span, this.iconName) // Use Obsidian's setIcon utility
-    return span
+    return IconElementFactory.createIconElement(this.resolved, this.showTooltip)
+  }
+
+  /**
+   * Lets CodeMirror reuse the existing DOM when the icon is unchanged
+   * @param other - The widget being compared against
+   * @returns True if both widgets display the same icon, color, badge,
+   *   tooltip, and unresolved state
+   */
+  eq(other: IconWidget): boolean {
+    const badge = this.resolved.badge
+    const otherBadge = other.resolved.badge
+    return (
+      other.resolved.icon === this.resolved.icon &&
+      other.resolved.color === this.resolved.color &&
+      other.resolved.isUnresolved === this.resolved.isUnresolved &&
+      other.showTooltip === this.showTooltip &&
+      other.resolved.reason === this.resolved.reason &&
+      otherBadge?.icon === badge?.icon &&
+      otherBadge?.color === badge?.color
+    )
   }
 }
 
@@ -65,9 +87,14 @@ class IconWidget extends WidgetType {
  *
  * @param app - The Obsidian App instance for accessing metadata and files
  * @param iconResolver - Service for determining which icon to use for each file
+ * @param settings - The plugin settings, read whenever decorations are built
  * @returns ViewPlugin that can be added to a CodeMirror editor
  */
-export function createEditorExtension(app: App, iconResolver: IconResolver) {
+export function createEditorExtension(
+  app: App,
+  iconResolver: IconResolver,
+  settings: PluginSettings
+) {
   // State field to track refresh state - increments when icons need updating
   const iconRefreshState = StateField.define<number>({
     create() {
@@ -170,26 +197,22 @@ export function createEditorExtension(app: App, iconResolver: IconResolver) {
                   linkPath = linkText.split("|")[0]
                 }
 
-                // Resolve the linked file using Obsidian's metadata cache
-                const linkedFile = app.metadataCache.getFirstLinkpathDest(
+                // Resolve the icon for the linked file, or for the file the
+                // link would create if it doesn't exist
+                const resolved = iconResolver.getIconForLink(
                   linkPath,
                   file.path
                 )
 
-                if (linkedFile) {
-                  // Get the appropriate icon for this file type
-                  const iconName = iconResolver.getIconForFile(linkedFile)
-
-                  if (iconName) {
-                    // Position the icon before the link text
-                    const iconPos = node.from
-                    const widget = Decoration.widget({
-                      widget: new IconWidget(iconName),
-                      side: -1, // Place before the link text
-                    })
+                if (resolved) {
+                  // Position the icon before the link text
+                  const iconPos = node.from
+                  const widget = Decoration.widget({
+                    widget: new IconWidget(resolved, settings.showIconTooltips),
+                    side: -1, // Place before the link text
+                  })
 
-                    builder.add(iconPos, iconPos, widget)
-                  }
+                  builder.add(iconPos, iconPos, widget)
                 }
               }
             },
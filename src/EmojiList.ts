@@ -0,0 +1,241 @@
+/**
+ * EmojiList.ts
+ *
+ * This file provides the emoji offered by the emoji tab of the icon picker.
+ * Each emoji has a short name so it can be found with the fuzzy search
+ * (e.g. "rocket" finds 🚀). Any other emoji can still be typed or pasted
+ * directly wherever an icon name is accepted.
+ */
+
+/**
+ * An emoji with the name used to search for it
+ */
+export interface EmojiEntry {
+  /** The emoji glyph */
+  emoji: string
+  /** Search name, with synonyms separated by spaces */
+  name: string
+}
+
+/**
+ * Emoji offered by the icon picker, grouped loosely by topic
+ */
+export const EMOJI_LIST: EmojiEntry[] = [
+  // Status and symbols
+  { emoji: "✅", name: "check done complete" },
+  { emoji: "❌", name: "cross cancel wrong" },
+  { emoji: "⚠️", name: "warning caution" },
+  { emoji: "❗", name: "exclamation important" },
+  { emoji: "❓", name: "question" },
+  { emoji: "⭐", name: "star favorite" },
+  { emoji: "🌟", name: "glowing star highlight" },
+  { emoji: "✨", name: "sparkles new" },
+  { emoji: "🔥", name: "fire hot urgent" },
+  { emoji: "💡", name: "light bulb idea" },
+  { emoji: "📌", name: "pin pinned" },
+  { emoji: "📍", name: "round pin location" },
+  { emoji: "🔖", name: "bookmark" },
+  { emoji: "🏷️", name: "label tag" },
+  { emoji: "🔒", name: "lock private" },
+  { emoji: "🔓", name: "unlock public" },
+  { emoji: "🔑", name: "key" },
+  { emoji: "🚧", name: "construction wip" },
+  { emoji: "🚫", name: "prohibited blocked" },
+  { emoji: "⏳", name: "hourglass waiting pending" },
+  { emoji: "⏰", name: "alarm clock reminder" },
+  { emoji: "🔔", name: "bell notification" },
+  { emoji: "💯", name: "hundred points" },
+  { emoji: "🆕", name: "new button" },
+  { emoji: "♻️", name: "recycle" },
+  { emoji: "➡️", name: "arrow right next" },
+  { emoji: "🔗", name: "link" },
+  { emoji: "🎯", name: "target goal" },
+  { emoji: "🏁", name: "finish flag" },
+  { emoji: "🚩", name: "red flag" },
+  { emoji: "🔴", name: "red circle" },
+  { emoji: "🟠", name: "orange circle" },
+  { emoji: "🟡", name: "yellow circle" },
+  { emoji: "🟢", name: "green circle" },
+  { emoji: "🔵", name: "blue circle" },
+  { emoji: "🟣", name: "purple circle" },
+  { emoji: "⚫", name: "black circle" },
+  { emoji: "⚪", name: "white circle" },
+  { emoji: "❤️", name: "red heart love" },
+  { emoji: "💙", name: "blue heart" },
+  { emoji: "💚", name: "green heart" },
+  { emoji: "💛", name: "yellow heart" },
+  { emoji: "💜", name: "purple heart" },
+
+  // Documents and work
+  { emoji: "📝", name: "memo note writing" },
+  { emoji: "📄", name: "page document" },
+  { emoji: "📃", name: "page curl document" },
+  { emoji: "📑", name: "bookmark tabs" },
+  { emoji: "📋", name: "clipboard" },
+  { emoji: "📁", name: "folder" },
+  { emoji: "📂", name: "open folder" },
+  { emoji: "🗂️", name: "card index dividers" },
+  { emoji: "🗃️", name: "card file box archive" },
+  { emoji: "🗄️", name: "file cabinet" },
+  { emoji: "📦", name: "package box" },
+  { emoji: "📚", name: "books library" },
+  { emoji: "📖", name: "open book reading" },
+  { emoji: "📓", name: "notebook" },
+  { emoji: "📔", name: "decorated notebook journal" },
+  { emoji: "📒", name: "ledger" },
+  { emoji: "📰", name: "newspaper news" },
+  { emoji: "✏️", name: "pencil edit" },
+  { emoji: "🖊️", name: "pen" },
+  { emoji: "🖋️", name: "fountain pen" },
+  { emoji: "📎", name: "paperclip attachment" },
+  { emoji: "📐", name: "triangular ruler" },
+  { emoji: "✂️", name: "scissors" },
+  { emoji: "🗑️", name: "wastebasket trash" },
+  { emoji: "📊", name: "bar chart stats" },
+  { emoji: "📈", name: "chart increasing growth" },
+  { emoji: "📉", name: "chart decreasing" },
+  { emoji: "🗓️", name: "spiral calendar" },
+  { emoji: "📅", name: "calendar date" },
+  { emoji: "📆", name: "tear off calendar" },
+  { emoji: "🕒", name: "clock time" },
+  { emoji: "💼", name: "briefcase work" },
+  { emoji: "🏢", name: "office building company" },
+  { emoji: "🤝", name: "handshake meeting deal" },
+  { emoji: "👥", name: "people team" },
+  { emoji: "👤", name: "person contact" },
+  { emoji: "📧", name: "email mail" },
+  { emoji: "✉️", name: "envelope letter" },
+  { emoji: "📞", name: "telephone call" },
+  { emoji: "💬", name: "speech bubble chat comment" },
+  { emoji: "🗨️", name: "speech balloon" },
+  { emoji: "📢", name: "loudspeaker announcement" },
+  { emoji: "💰", name: "money bag finance" },
+  { emoji: "💵", name: "dollar cash" },
+  { emoji: "💳", name: "credit card payment" },
+  { emoji: "🧾", name: "receipt invoice" },
+  { emoji: "⚖️", name: "balance scale legal" },
+  { emoji: "🏆", name: "trophy award" },
+  { emoji: "🎓", name: "graduation cap education" },
+  { emoji: "🧠", name: "brain thinking" },
+  { emoji: "🔍", name: "magnifying glass search research" },
+  { emoji: "🧪", name: "test tube experiment" },
+  { emoji: "🔬", name: "microscope science" },
+  { emoji: "🧮", name: "abacus math" },
+
+  // Technology
+  { emoji: "💻", name: "laptop computer" },
+  { emoji: "🖥️", name: "desktop computer" },
+  { emoji: "📱", name: "mobile phone" },
+  { emoji: "⌨️", name: "keyboard" },
+  { emoji: "🖱️", name: "mouse" },
+  { emoji: "💾", name: "floppy disk save" },
+  { emoji: "⚙️", name: "gear settings config" },
+  { emoji: "🛠️", name: "hammer wrench tools" },
+  { emoji: "🔧", name: "wrench fix" },
+  { emoji: "🔨", name: "hammer build" },
+  { emoji: "🐛", name: "bug" },
+  { emoji: "🤖", name: "robot ai bot" },
+  { emoji: "🧩", name: "puzzle piece plugin" },
+  { emoji: "🔌", name: "electric plug" },
+  { emoji: "🔋", name: "battery" },
+  { emoji: "📡", name: "satellite antenna" },
+  { emoji: "🌐", name: "globe web internet" },
+  { emoji: "☁️", name: "cloud" },
+  { emoji: "🚀", name: "rocket launch ship" },
+  { emoji: "🛰️", name: "satellite" },
+  { emoji: "📷", name: "camera photo" },
+  { emoji: "🎥", name: "movie camera video" },
+  { emoji: "🎬", name: "clapper board film" },
+  { emoji: "🎧", name: "headphones audio podcast" },
+  { emoji: "🎵", name: "musical note music" },
+  { emoji: "🎙️", name: "microphone recording" },
+  { emoji: "🖼️", name: "framed picture image" },
+  { emoji: "🎨", name: "palette art design" },
+
+  // Places and travel
+  { emoji: "🏠", name: "house home" },
+  { emoji: "🏡", name: "house garden home" },
+  { emoji: "🏫", name: "school" },
+  { emoji: "🏥", name: "hospital health" },
+  { emoji: "🏦", name: "bank" },
+  { emoji: "🏛️", name: "classical building history" },
+  { emoji: "⛪", name: "church" },
+  { emoji: "🏕️", name: "camping" },
+  { emoji: "🏖️", name: "beach vacation" },
+  { emoji: "🏔️", name: "mountain" },
+  { emoji: "🗺️", name: "world map" },
+  { emoji: "🧭", name: "compass navigation" },
+  { emoji: "✈️", name: "airplane travel flight" },
+  { emoji: "🚗", name: "car" },
+  { emoji: "🚲", name: "bicycle bike" },
+  { emoji: "🚆", name: "train" },
+  { emoji: "⛵", name: "sailboat" },
+  { emoji: "🌍", name: "globe europe africa earth" },
+  { emoji: "🌎", name: "globe americas earth" },
+  { emoji: "🌏", name: "globe asia earth" },
+
+  // Nature and weather
+  { emoji: "🌱", name: "seedling growth sprout" },
+  { emoji: "🌳", name: "tree" },
+  { emoji: "🌲", name: "evergreen tree" },
+  { emoji: "🌵", name: "cactus" },
+  { emoji: "🌸", name: "cherry blossom flower" },
+  { emoji: "🌻", name: "sunflower" },
+  { emoji: "🍀", name: "four leaf clover luck" },
+  { emoji: "🍁", name: "maple leaf autumn" },
+  { emoji: "☀️", name: "sun sunny" },
+  { emoji: "🌙", name: "crescent moon night" },
+  { emoji: "⛅", name: "sun behind cloud weather" },
+  { emoji: "🌧️", name: "rain cloud" },
+  { emoji: "❄️", name: "snowflake winter" },
+  { emoji: "⚡", name: "lightning energy" },
+  { emoji: "🌈", name: "rainbow" },
+  { emoji: "🌊", name: "water wave ocean" },
+  { emoji: "🐶", name: "dog pet" },
+  { emoji: "🐱", name: "cat pet" },
+  { emoji: "🐦", name: "bird" },
+  { emoji: "🦋", name: "butterfly" },
+  { emoji: "🐝", name: "bee" },
+
+  // Food and everyday life
+  { emoji: "☕", name: "coffee hot beverage" },
+  { emoji: "🍵", name: "tea" },
+  { emoji: "🍎", name: "apple fruit" },
+  { emoji: "🥑", name: "avocado" },
+  { emoji: "🍕", name: "pizza food" },
+  { emoji: "🍳", name: "cooking recipe" },
+  { emoji: "🍽️", name: "plate cutlery meal" },
+  { emoji: "🎂", name: "birthday cake" },
+  { emoji: "🎁", name: "gift present" },
+  { emoji: "🎉", name: "party popper celebration" },
+  { emoji: "🛒", name: "shopping cart" },
+  { emoji: "🛏️", name: "bed sleep" },
+  { emoji: "💊", name: "pill medicine" },
+  { emoji: "🩺", name: "stethoscope doctor" },
+  { emoji: "🏃", name: "running exercise" },
+  { emoji: "🏋️", name: "weight lifting gym fitness" },
+  { emoji: "🧘", name: "yoga meditation" },
+  { emoji: "⚽", name: "soccer football sport" },
+  { emoji: "🎮", name: "video game controller gaming" },
+  { emoji: "🎲", name: "game die" },
+  { emoji: "♟️", name: "chess pawn strategy" },
+  { emoji: "🎸", name: "guitar" },
+  { emoji: "👶", name: "baby" },
+  { emoji: "👪", name: "family" },
+
+  // Faces and hands
+  { emoji: "😀", name: "grinning face happy" },
+  { emoji: "😊", name: "smiling face" },
+  { emoji: "😎", name: "sunglasses cool" },
+  { emoji: "🤔", name: "thinking face" },
+  { emoji: "😴", name: "sleeping face" },
+  { emoji: "😢", name: "crying face sad" },
+  { emoji: "😡", name: "angry face" },
+  { emoji: "🤯", name: "mind blown" },
+  { emoji: "👍", name: "thumbs up approve" },
+  { emoji: "👎", name: "thumbs down" },
+  { emoji: "👏", name: "clapping hands" },
+  { emoji: "🙏", name: "folded hands thanks" },
+  { emoji: "✋", name: "raised hand stop" },
+  { emoji: "👀", name: "eyes review watch" },
+]
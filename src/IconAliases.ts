@@ -0,0 +1,139 @@
+/**
+ * IconAliases.ts
+ *
+ * This file provides icon aliases: alternative names that stand for an icon
+ * and are replaced by its name before rendering. Users define their own
+ * aliases (e.g. "todo" → "list-checks"), and a built-in table maps the old
+ * names of renamed Lucide icons to their current names, so that notes and
+ * mappings written for an older version of Obsidian keep their icons.
+ */
+
+import { getIcon } from "obsidian"
+import { isValidIcon, normalizeIconName } from "./IconName"
+import { PluginSettings } from "./types"
+
+/**
+ * Old names of renamed Lucide icons, mapped to their current names
+ *
+ * Only applied when the old name is not registered, so versions of
+ * Obsidian that ship an older Lucide keep using the old name.
+ */
+export const BUILT_IN_ICON_ALIASES: Record<string, string> = {
+  "alert-circle": "circle-alert",
+  "alert-octagon": "octagon-alert",
+  "alert-triangle": "triangle-alert",
+  "area-chart": "chart-area",
+  "arrow-down-circle": "circle-arrow-down",
+  "arrow-left-circle": "circle-arrow-left",
+  "arrow-right-circle": "circle-arrow-right",
+  "arrow-up-circle": "circle-arrow-up",
+  "bar-chart": "chart-no-axes-column-increasing",
+  "bar-chart-2": "chart-no-axes-column",
+  "box-select": "square-dashed",
+  "check-circle": "circle-check-big",
+  "check-circle-2": "circle-check",
+  "check-square": "square-check-big",
+  "check-square-2": "square-check",
+  "code-2": "code-xml",
+  "contact-2": "contact-round",
+  "download-cloud": "cloud-download",
+  edit: "square-pen",
+  "edit-2": "pen",
+  "edit-3": "pen-line",
+  "file-edit": "file-pen",
+  filter: "funnel",
+  "folder-edit": "folder-pen",
+  grid: "grid-3x3",
+  "help-circle": "circle-help",
+  home: "house",
+  "ice-cream": "ice-cream-cone",
+  layout: "panels-top-left",
+  "library-square": "square-library",
+  "line-chart": "chart-line",
+  "minus-circle": "circle-minus",
+  "more-horizontal": "ellipsis",
+  "more-vertical": "ellipsis-vertical",
+  "pause-circle": "circle-pause",
+  "pie-chart": "chart-pie",
+  "play-circle": "circle-play",
+  "plus-circle": "circle-plus",
+  "plus-square": "square-plus",
+  sidebar: "panel-left",
+  "stop-circle": "circle-stop",
+  unlock: "lock-open",
+  "upload-cloud": "cloud-upload",
+  "user-2": "user-round",
+  "user-circle": "circle-user",
+  "user-circle-2": "circle-user-round",
+  "users-2": "users-round",
+  verified: "badge-check",
+  "wand-2": "wand-sparkles",
+  "x-circle": "circle-x",
+  "x-octagon": "octagon-x",
+  "x-square": "square-x",
+}
+
+/**
+ * Replaces an icon alias with the name of the icon it stands for
+ *
+ * The name is normalized first (see normalizeIconName). The user's aliases
+ * are checked next, ignoring case, then the built-in Lucide renames (unless
+ * turned off). A user alias may point to an old Lucide name, which is then
+ * renamed as well.
+ *
+ * @param icon - The icon value as written in a note or mapping
+ * @param settings - The plugin settings
+ * @returns The icon name to render, or the normalized value if it is no alias
+ */
+export function resolveIconAlias(
+  icon: string,
+  settings: PluginSettings
+): string {
+  const written = icon.trim().toLowerCase()
+  const name = normalizeIconName(icon)
+  const alias = settings.iconAliases.find(entry => {
+    const key = entry.alias.trim().toLowerCase()
+    return (key === written || key === name) && entry.icon.trim() !== ""
+  })
+  const target = alias ? normalizeIconName(alias.icon) : name
+
+  if (settings.useBuiltInIconAliases) {
+    const renamed = Object.prototype.hasOwnProperty.call(
+      BUILT_IN_ICON_ALIASES,
+      target
+    )
+      ? BUILT_IN_ICON_ALIASES[target]
+      : null
+    if (renamed && getIcon(target) === null && getIcon(renamed) !== null) {
+      return renamed
+    }
+  }
+
+  return target
+}
+
+/**
+ * Replaces icon aliases in a frontmatter property value
+ *
+ * Strings are replaced as a whole and lists entry by entry; other values
+ * are returned unchanged. Names are only rewritten to icons that exist, so
+ * list entries that are no icons (and icons of packs that are not loaded)
+ * are kept.
+ *
+ * @param value - The property value
+ * @param settings - The plugin settings
+ * @returns The value with canonical icon names
+ */
+export function replaceIconAliases(
+  value: unknown,
+  settings: PluginSettings
+): unknown {
+  if (typeof value === "string") {
+    const icon = resolveIconAlias(value, settings)
+    return icon !== value.trim() && isValidIcon(icon) ? icon : value
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => replaceIconAliases(entry, settings))
+  }
+  return value
+}
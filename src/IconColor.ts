@@ -0,0 +1,65 @@
+/**
+ * IconColor.ts
+ *
+ * This file converts user-entered icon colors into CSS color values. Colors
+ * can be configured on tag mappings, folder mappings, and via frontmatter, and
+ * may be written in any of the following forms:
+ *
+ * - Hex colors (e.g., "#e03131", "#fa0")
+ * - CSS variables (e.g., "var(--text-accent)" or just "--text-accent")
+ * - Theme accent names (e.g., "red", "blue", "accent") which map to Obsidian's
+ *   built-in color variables so they follow the active theme
+ * - Any other value the browser accepts as a CSS color (e.g., "rebeccapurple")
+ */
+
+/**
+ * Theme color names mapped to Obsidian's built-in CSS color variables
+ */
+const THEME_COLORS: Record<string, string> = {
+  accent: "var(--interactive-accent)",
+  red: "var(--color-red)",
+  orange: "var(--color-orange)",
+  yellow: "var(--color-yellow)",
+  green: "var(--color-green)",
+  cyan: "var(--color-cyan)",
+  blue: "var(--color-blue)",
+  purple: "var(--color-purple)",
+  pink: "var(--color-pink)",
+}
+
+/**
+ * Names of the theme colors that can be used in place of a CSS color
+ */
+export const THEME_COLOR_NAMES = Object.keys(THEME_COLORS)
+
+/**
+ * Converts a configured icon color into a CSS color value
+ *
+ * Theme names are matched case-insensitively. Bare CSS custom property names
+ * are wrapped in var(). Values that are not recognized as a color are rejected
+ * so that typos do not produce invalid styles.
+ *
+ * @param color - The color as entered by the user
+ * @returns A CSS color value, or null if the color is empty or invalid
+ */
+export function toCssColor(color: string | undefined | null): string | null {
+  if (typeof color !== "string") return null
+
+  const value = color.trim()
+  if (value === "") return null
+
+  const name = value.toLowerCase()
+  if (Object.prototype.hasOwnProperty.call(THEME_COLORS, name)) {
+    return THEME_COLORS[name]
+  }
+
+  if (value.startsWith("--")) return `var(${value})`
+  if (value.startsWith("var(")) return value
+  if (/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)) return value
+
+  if (typeof CSS !== "undefined" && CSS.supports("color", value)) {
+    return value
+  }
+
+  return null
+}
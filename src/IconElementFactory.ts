@@ -6,7 +6,10 @@
  * used throughout the plugin to display file icons in various locations.
  */
 
-import { setIcon } from "obsidian"
+import { setIcon, setTooltip } from "obsidian"
+import { toCssColor } from "./IconColor"
+import { isTextIcon } from "./IconName"
+import { ResolvedFolderIcon, ResolvedIcon } from "./types"
 
 /**
  * Utility class for creating icon DOM elements
@@ -19,17 +22,144 @@ export class IconElementFactory {
   /**
    * Creates a standardized icon element for a file
    *
-   * This method creates a span element with the 'file-icon' class and uses
-   * Obsidian's setIcon utility to render the specified icon. The icon name
-   * should be a valid Lucide icon name that will be displayed in the UI.
+   * This method creates a span element with the 'file-icon' class and renders
+   * the icon into it (see setIconContent). When the resolved
+   * icon carries a valid color, it is exposed to the stylesheet through the
+   * --simple-icons-color custom property. A badge is added as a nested
+   * element (see createBadgeElement), so renderers that replace the
+   * '.file-icon' element replace its badge along with it. Icons for links to
+   * files that don't exist get the 'is-unresolved-icon' class.
    *
-   * @param iconName - The name of the icon to display (e.g., 'file-text', 'folder', 'home')
+   * @param resolved - The resolved icon to display (e.g., { icon: 'home', color: 'blue' })
+   * @param showTooltip - Whether hovering the icon shows which setting
+   *   provided it
    * @returns A span element containing the rendered icon with the 'file-icon' class
    */
-  static createIconElement(iconName: string): HTMLElement {
+  static createIconElement(
+    resolved: ResolvedIcon,
+    showTooltip = false
+  ): HTMLElement {
     const iconEl = document.createElement("span")
     iconEl.addClass("file-icon")
-    setIcon(iconEl, iconName)
+    this.setIconContent(iconEl, resolved.icon)
+    this.applyColor(iconEl, resolved.color)
+    iconEl.toggleClass("is-unresolved-icon", resolved.isUnresolved === true)
+
+    if (resolved.badge) {
+      iconEl.addClass("has-icon-badge")
+      iconEl.appendChild(this.createBadgeElement(resolved.badge))
+    }
+
+    if (showTooltip) {
+      setTooltip(iconEl, this.describeIcon(resolved))
+    }
+
     return iconEl
   }
+
+  /**
+   * Describes a resolved icon and its badge for tooltips
+   *
+   * @param resolved - The resolved icon
+   * @returns The icon names with the settings that provided them, one per line
+   */
+  static describeIcon(resolved: ResolvedIcon): string {
+    const describe = (icon: ResolvedIcon) =>
+      icon.reason ? `${icon.icon}: ${icon.reason}` : icon.icon
+
+    const lines = [describe(resolved)]
+    if (resolved.badge) {
+      lines.push(`Badge ${describe(resolved.badge)}`)
+    }
+    return lines.join("\n")
+  }
+
+  /**
+   * Creates the badge element overlaid on the corner of a file icon
+   *
+   * The badge has the 'file-icon-badge' class and no 'file-icon' class, so
+   * it is never mistaken for an icon of its own. Without a color of its own,
+   * it inherits the color of the icon it is attached to.
+   *
+   * @param badge - The resolved badge to display
+   * @returns A span element containing the rendered badge
+   */
+  static createBadgeElement(badge: ResolvedIcon): HTMLElement {
+    const badgeEl = document.createElement("span")
+    badgeEl.addClass("file-icon-badge")
+    this.setIconContent(badgeEl, badge.icon)
+    this.applyColor(badgeEl, badge.color)
+    return badgeEl
+  }
+
+  /**
+   * Exposes a configured color to the stylesheet, if it is valid
+   *
+   * @param el - The icon or badge element
+   * @param color - The configured color, if any
+   */
+  private static applyColor(el: HTMLElement, color: string | undefined): void {
+    const cssColor = toCssColor(color)
+    if (cssColor) {
+      el.addClass("has-icon-color")
+      el.style.setProperty("--simple-icons-color", cssColor)
+    }
+  }
+
+  /**
+   * Renders an icon value into an element, replacing its content
+   *
+   * Icon names are rendered with Obsidian's setIcon utility. Emoji and other
+   * single grapheme clusters are rendered as text with the 'is-text-icon'
+   * class, which sizes the glyph like an icon.
+   *
+   * @param el - The element to render into
+   * @param icon - The icon name or text glyph
+   */
+  static setIconContent(el: HTMLElement, icon: string): void {
+    const textIcon = isTextIcon(icon)
+    el.toggleClass("is-text-icon", textIcon)
+    if (textIcon) {
+      el.setText(icon.trim())
+    } else {
+      setIcon(el, icon)
+    }
+  }
+
+  /**
+   * Creates the icon elements for a folder in the file explorer
+   *
+   * Folders with an open variant get two elements: the closed icon with the
+   * 'folder-icon-closed' class and the open icon with the 'folder-icon-open'
+   * class. The stylesheet shows one of them depending on whether the folder
+   * is collapsed, so expanding a folder needs no re-render.
+   *
+   * @param resolved - The resolved folder icon to display
+   * @param showTooltip - Whether hovering the icons shows which setting
+   *   provided them
+   * @returns The icon elements, in the order they should be inserted
+   */
+  static createFolderIconElements(
+    resolved: ResolvedFolderIcon,
+    showTooltip = false
+  ): HTMLElement[] {
+    const closedEl = this.createIconElement(resolved, showTooltip)
+    closedEl.addClass("folder-icon")
+
+    if (!resolved.openIcon || resolved.openIcon.trim() === "") {
+      return [closedEl]
+    }
+
+    const openEl = this.createIconElement(
+      {
+        icon: resolved.openIcon,
+        color: resolved.color,
+        reason: resolved.reason,
+      },
+      showTooltip
+    )
+    openEl.addClass("folder-icon", "folder-icon-open")
+    closedEl.addClass("folder-icon-closed")
+    return [closedEl, openEl]
+  }
 }
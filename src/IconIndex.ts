@@ -0,0 +1,190 @@
+/**
+ * IconIndex.ts
+ *
+ * This file provides the IconIndex class that persists resolved file icons
+ * between sessions, so that large vaults show icons immediately at startup
+ * instead of waiting for every file to be resolved again.
+ *
+ * The index is stored as JSON in the plugin's folder. Each entry records the
+ * modification time of its file, and the index records a hash of the
+ * settings it was built with; entries are only reused while both match.
+ * Because an icon can also depend on other files (e.g. an edited folder note),
+ * every file is resolved again in the background once the metadata cache is
+ * resolved, and icons that changed are reported so they can be re-rendered.
+ */
+
+import { App, debounce, normalizePath, TFile } from "obsidian"
+import { IconResolver } from "./IconResolver"
+import { IconCache, IconChange, PluginSettings, ResolvedIcon } from "./types"
+
+/** Version of the index file format; older files are ignored */
+const INDEX_VERSION = 1
+
+/** Number of files resolved between pauses during reconciliation */
+const RECONCILE_BATCH_SIZE = 500
+
+/**
+ * A persisted icon together with the file version it was resolved for
+ */
+interface IndexEntry {
+  /** Modification time of the file when the icon was resolved */
+  mtime: number
+  /** The resolved icon, or null if the file had none */
+  icon: ResolvedIcon | null
+}
+
+/**
+ * Contents of the index file
+ */
+interface IndexData {
+  /** The index file format version */
+  version: number
+  /** Hash of the settings the icons were resolved with */
+  settingsHash: string
+  /** Persisted icons indexed by file path */
+  entries: Record<string, IndexEntry>
+}
+
+/**
+ * Persists resolved file icons in the plugin folder
+ */
+export class IconIndex {
+  private app: App
+  private iconResolver: IconResolver
+  private settings: PluginSettings
+  private path: string
+
+  /**
+   * Saves the index at most every 30 seconds while files keep changing
+   */
+  requestSave = debounce(() => this.save(), 30000)
+
+  /**
+   * Creates a new IconIndex instance
+   *
+   * @param app - The Obsidian App instance for file access
+   * @param iconResolver - The resolver whose cache is persisted
+   * @param settings - The plugin settings, which are edited in place, so the
+   *   hash saved with the index always reflects the current settings
+   * @param pluginDir - The plugin's folder, relative to the vault root
+   */
+  constructor(
+    app: App,
+    iconResolver: IconResolver,
+    settings: PluginSettings,
+    pluginDir: string
+  ) {
+    this.app = app
+    this.iconResolver = iconResolver
+    this.settings = settings
+    this.path = normalizePath(`${pluginDir}/icon-index.json`)
+  }
+
+  /**
+   * Loads the index and seeds the resolver's cache with it
+   *
+   * Entries are skipped when the settings changed since the index was saved,
+   * or when their file was modified, moved, or deleted.
+   *
+   * @returns The number of icons seeded
+   */
+  async load(): Promise<number> {
+    let data: IndexData
+    try {
+      if (!(await this.app.vault.adapter.exists(this.path))) return 0
+      data = JSON.parse(await this.app.vault.adapter.read(this.path))
+    } catch (e) {
+      console.warn("Simple Icons: could not read the icon index", e)
+      return 0
+    }
+
+    if (
+      data?.version !== INDEX_VERSION ||
+      data.settingsHash !== hashSettings(this.settings)
+    ) {
+      return 0
+    }
+
+    const icons: IconCache = {}
+    for (const [path, entry] of Object.entries(data.entries ?? {})) {
+      const file = this.app.vault.getAbstractFileByPath(path)
+      if (file instanceof TFile && file.stat.mtime === entry.mtime) {
+        icons[path] = entry.icon
+      }
+    }
+
+    this.iconResolver.seedCache(icons)
+    return Object.keys(icons).length
+  }
+
+  /**
+   * Writes the icons currently cached by the resolver to the index file
+   */
+  async save(): Promise<void> {
+    const entries: Record<string, IndexEntry> = {}
+    for (const [path, icon] of Object.entries(
+      this.iconResolver.getCachedIcons()
+    )) {
+      const file = this.app.vault.getAbstractFileByPath(path)
+      if (file instanceof TFile) {
+        entries[path] = { mtime: file.stat.mtime, icon }
+      }
+    }
+
+    const data: IndexData = {
+      version: INDEX_VERSION,
+      settingsHash: hashSettings(this.settings),
+      entries,
+    }
+
+    try {
+      await this.app.vault.adapter.write(this.path, JSON.stringify(data))
+    } catch (e) {
+      console.warn("Simple Icons: could not write the icon index", e)
+    }
+  }
+
+  /**
+   * Resolves every file again and reports the icons that changed
+   *
+   * Files are resolved in batches, pausing in between so that the interface
+   * stays responsive in large vaults. The index is saved afterwards.
+   *
+   * @returns The icons that differ from the cached ones, see
+   *   IconResolver.collectIconChanges
+   */
+  async reconcile(): Promise<IconChange[]> {
+    const files = this.app.vault.getFiles()
+
+    for (let i = 0; i < files.length; i++) {
+      this.iconResolver.invalidateFile(files[i])
+      this.iconResolver.getIconForFile(files[i])
+
+      if ((i + 1) % RECONCILE_BATCH_SIZE === 0) {
+        await new Promise(resolve => window.setTimeout(resolve, 0))
+      }
+    }
+
+    const changes = await this.iconResolver.collectIconChanges()
+    await this.save()
+    return changes
+  }
+}
+
+/**
+ * Hashes the settings, so that an index built with other settings is ignored
+ *
+ * Uses the 32-bit FNV-1a hash of the settings' JSON representation.
+ *
+ * @param settings - The plugin settings
+ * @returns The hash as a hexadecimal string
+ */
+function hashSettings(settings: PluginSettings): string {
+  const json = JSON.stringify(settings)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
@@ -0,0 +1,117 @@
+/**
+ * IconName.ts
+ *
+ * This file provides helpers for interpreting icon values. An icon value is
+ * either the name of an icon registered with Obsidian (a Lucide name such as
+ * "rocket") or a text glyph such as an emoji ("🚀") or any other single
+ * grapheme cluster ("★", "🇫🇷"), which is rendered as text instead.
+ *
+ * Icon names are normalized before they are looked up, so that names written
+ * the way other tools spell them ("Home", "lucide:home", "HomeIcon") find the
+ * registered icon.
+ */
+
+import { getIcon } from "obsidian"
+
+/**
+ * The subset of Intl.Segmenter used to count grapheme clusters
+ *
+ * Declared locally because the project's TypeScript lib predates Segmenter.
+ */
+interface GraphemeSegmenter {
+  segment(input: string): Iterable<unknown>
+}
+
+type SegmenterConstructor = new (
+  locale?: string,
+  options?: { granularity: "grapheme" }
+) => GraphemeSegmenter
+
+const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor })
+  .Segmenter
+const graphemeSegmenter = Segmenter
+  ? new Segmenter(undefined, { granularity: "grapheme" })
+  : null
+
+/** Characters icon names are made of (e.g. "rocket", "lucide-home") */
+const ICON_NAME_PATTERN = /^[\w:-]+$/
+
+/**
+ * Counts the grapheme clusters (user-perceived characters) in a string
+ *
+ * Falls back to counting code points where Intl.Segmenter is unavailable,
+ * which over-counts multi-code-point emoji such as flags and ZWJ sequences.
+ *
+ * @param value - The string to measure
+ * @returns The number of grapheme clusters
+ */
+function countGraphemes(value: string): number {
+  if (graphemeSegmenter) {
+    return Array.from(graphemeSegmenter.segment(value)).length
+  }
+  return Array.from(value).length
+}
+
+/**
+ * Checks whether an icon value is a text glyph rather than an icon name
+ *
+ * @param icon - The icon value
+ * @returns True for a single emoji or other grapheme cluster that isn't a
+ *   word character
+ */
+export function isTextIcon(icon: string): boolean {
+  const value = icon.trim()
+  if (value === "" || ICON_NAME_PATTERN.test(value)) return false
+  return countGraphemes(value) === 1
+}
+
+/**
+ * Checks whether an icon value can be rendered
+ *
+ * Used where a value may or may not be meant as an icon, e.g. the entries of
+ * a list property in the frontmatter.
+ *
+ * @param icon - The icon value
+ * @returns True for text glyphs and names of icons registered with Obsidian
+ */
+export function isValidIcon(icon: string): boolean {
+  const value = icon.trim()
+  return value !== "" && (isTextIcon(value) || getIcon(value) !== null)
+}
+
+/**
+ * Normalizes the way an icon name is written
+ *
+ * Text glyphs are kept as they are. In icon names, whitespace and
+ * underscores become hyphens, a "lucide-", "lucide:", or "Lucide" prefix is
+ * removed, and unless the name is registered as written, it is lowercased,
+ * splitting PascalCase and camelCase into words ("ArrowUpDown" →
+ * "arrow-up-down", "BarChart2" → "bar-chart-2") and dropping an "Icon"
+ * suffix ("HomeIcon" → "home"). The first of these spellings that is
+ * registered is used, so icon pack names that run words together still
+ * match; if none is, the fully normalized name is returned, e.g. for old
+ * Lucide names that are renamed afterwards (see resolveIconAlias).
+ *
+ * @param icon - The icon value as written in a note or mapping
+ * @returns The normalized icon name, trimmed
+ */
+export function normalizeIconName(icon: string): string {
+  const value = icon.trim()
+  if (value === "" || isTextIcon(value)) return value
+
+  const spelled = value
+    .replace(/[\s_]+/g, "-")
+    .replace(/^lucide[-:]/i, "")
+    .replace(/^Lucide(?=[A-Z])/, "")
+  const words = spelled.replace(/([a-z\d])([A-Z])/g, "$1-$2").toLowerCase()
+  const numbered = words.replace(/([a-z]{2})(\d)/g, "$1-$2")
+  const candidates = [spelled, value, spelled.toLowerCase(), words, numbered]
+  if (/[a-z\d]Icon$/.test(spelled)) {
+    candidates.push(numbered.replace(/-icon$/, ""))
+  }
+
+  return (
+    candidates.find(name => getIcon(name) !== null) ??
+    candidates[candidates.length - 1]
+  )
+}
@@ -0,0 +1,174 @@
+/**
+ * IconPackManager.ts
+ *
+ * This file provides the IconPackManager class that registers custom SVG
+ * icons from a vault folder with Obsidian, so they can be used like Lucide
+ * icons. Icons are namespaced by pack:
+ *
+ * - icons/mypack/logo.svg → mypack:logo
+ * - icons/logo.svg        → custom:logo (files directly in the folder)
+ *
+ * The manager keeps track of the icons it registered so that they can be
+ * removed again when the folder or its contents change.
+ */
+
+import { App, addIcon, normalizePath, removeIcon, TFile } from "obsidian"
+import { PluginSettings } from "./types"
+
+/** Pack name used for SVG files placed directly in the icon pack folder */
+const DEFAULT_PACK = "custom"
+
+/**
+ * Loads SVG icon packs from a vault folder and registers them as icons
+ */
+export class IconPackManager {
+  private app: App
+  private settings: PluginSettings
+  private registeredIds: Set<string> = new Set()
+
+  /**
+   * Creates a new IconPackManager instance
+   *
+   * @param app - The Obsidian App instance for reading vault files
+   * @param settings - The plugin settings, which are edited in place; call
+   *   load to apply a changed icon pack folder
+   */
+  constructor(app: App, settings: PluginSettings) {
+    this.app = app
+    this.settings = settings
+  }
+
+  /**
+   * Returns the configured icon pack folder, or null if none is set
+   */
+  private getFolder(): string | null {
+    const folder = this.settings.iconPackFolder.trim()
+    return folder ? normalizePath(folder) : null
+  }
+
+  /**
+   * Checks whether a path is an SVG file inside the icon pack folder
+   *
+   * @param path - The vault path to check
+   * @returns True if changes to the path affect the registered icons
+   */
+  isIconPackFile(path: string): boolean {
+    const folder = this.getFolder()
+    return (
+      folder !== null &&
+      path.toLowerCase().endsWith(".svg") &&
+      path.startsWith(folder + "/")
+    )
+  }
+
+  /**
+   * Returns the IDs of all registered custom icons
+   *
+   * @returns Sorted icon IDs (e.g. "mypack:logo")
+   */
+  getIconIds(): string[] {
+    return Array.from(this.registeredIds).sort()
+  }
+
+  /**
+   * Registers all SVG files in the icon pack folder, replacing earlier ones
+   *
+   * Files that cannot be parsed as SVG are skipped.
+   *
+   * @returns The number of registered icons
+   */
+  async load(): Promise<number> {
+    this.unload()
+
+    const folder = this.getFolder()
+    if (!folder) return 0
+
+    const files = this.app.vault
+      .getFiles()
+      .filter(file => this.isIconPackFile(file.path))
+
+    for (const file of files) {
+      const svg = prepareSvg(await this.app.vault.cachedRead(file))
+      if (!svg) continue
+
+      const id = this.getIconId(folder, file)
+      addIcon(id, svg)
+      this.registeredIds.add(id)
+    }
+
+    return this.registeredIds.size
+  }
+
+  /**
+   * Removes all icons registered by the manager
+   */
+  unload(): void {
+    this.registeredIds.forEach(id => removeIcon(id))
+    this.registeredIds.clear()
+  }
+
+  /**
+   * Builds the namespaced icon ID for an SVG file
+   *
+   * The first subfolder names the pack; deeper subfolders become part of the
+   * icon name (icons/brands/social/x.svg → brands:social-x).
+   *
+   * @param folder - The icon pack folder
+   * @param file - The SVG file
+   * @returns The icon ID
+   */
+  private getIconId(folder: string, file: TFile): string {
+    const parts = file.path
+      .slice(folder.length + 1, -".svg".length)
+      .split("/")
+      .map(toIdPart)
+    const pack = parts.length > 1 ? parts.shift() : DEFAULT_PACK
+    return `${pack}:${parts.join("-")}`
+  }
+}
+
+/**
+ * Converts a file or folder name into a part of an icon ID
+ *
+ * @param name - The file or folder name
+ * @returns The lowercased name with whitespace replaced by hyphens
+ */
+function toIdPart(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, "-")
+}
+
+/**
+ * Prepares SVG file content for registration with addIcon
+ *
+ * addIcon places the content inside an SVG with a 0 0 100 100 view box, so
+ * the file's root element is kept as a nested SVG scaled to fill it. Scripts
+ * and event handler attributes are removed.
+ *
+ * @param source - The SVG file content
+ * @returns The content to register, or null if the file is not a valid SVG
+ */
+function prepareSvg(source: string): string | null {
+  const doc = new DOMParser().parseFromString(source, "image/svg+xml")
+  const svg = doc.documentElement
+  if (svg.nodeName !== "svg" || doc.querySelector("parsererror")) return null
+
+  svg.querySelectorAll("script, foreignObject").forEach(el => el.remove())
+  for (const el of [svg, ...Array.from(svg.querySelectorAll("*"))]) {
+    for (const attr of Array.from(el.attributes)) {
+      if (attr.name.toLowerCase().startsWith("on")) {
+        el.removeAttribute(attr.name)
+      }
+    }
+  }
+
+  // Keep the original coordinate system when only width/height are given
+  const width = parseFloat(svg.getAttribute("width") ?? "")
+  const height = parseFloat(svg.getAttribute("height") ?? "")
+  if (!svg.hasAttribute("viewBox") && width > 0 && height > 0) {
+    svg.setAttribute("viewBox", `0 0 ${width} ${height}`)
+  }
+
+  svg.setAttribute("width", "100")
+  svg.setAttribute("height", "100")
+  return new XMLSerializer().serializeToString(svg)
+}
@@ -1,25 +1,36 @@
 /**
  * IconPickerModal.ts
  *
- * This file provides a fuzzy suggestion modal for selecting Lucide icons.
- * The modal allows users to search and preview icons before selecting them,
- * making it easy to configure which icons are associated with files, tags, and folders.
+ * This file provides a fuzzy suggestion modal for selecting Lucide icons or
+ * emoji. The modal allows users to search and preview icons before selecting
+ * them, making it easy to configure which icons are associated with files,
+ * tags, and folders.
  */
 
-import { App, FuzzyMatch, FuzzySuggestModal, setIcon } from "obsidian"
+import { App, FuzzyMatch, FuzzySuggestModal } from "obsidian"
+import { EMOJI_LIST } from "./EmojiList"
+import { IconElementFactory } from "./IconElementFactory"
 import { IconResolver } from "./IconResolver"
 
 /**
- * Modal dialog for selecting icons from the Lucide icon set
+ * The tabs of the icon picker
+ */
+type IconPickerTab = "icons" | "emoji"
+
+/**
+ * Modal dialog for selecting icons from the Lucide icon set or emoji
  *
  * This modal extends Obsidian's FuzzySuggestModal to provide a searchable
  * interface for selecting icons. Users can type to search for icons and see
- * visual previews of each icon before making a selection.
+ * visual previews of each icon before making a selection. A tab bar above the
+ * search input switches between icons and emoji.
  */
 export class IconPickerModal extends FuzzySuggestModal<string> {
   private iconResolver: IconResolver
   private onChoose: (iconName: string) => void
   private allIcons: string[]
+  private emojiNames: Map<string, string>
+  private tab: IconPickerTab = "icons"
 
   /**
    * Creates a new icon picker modal
@@ -37,26 +48,70 @@ export class IconPickerModal extends FuzzySuggestModal<string> {
     this.iconResolver = iconResolver
     this.onChoose = onChoose
     this.allIcons = iconResolver.getValidIconNames()
+    this.emojiNames = new Map(
+      EMOJI_LIST.map(entry => [entry.emoji, entry.name])
+    )
     this.setPlaceholder("Search for a Lucide icon...")
   }
 
   /**
-   * Returns the list of all available icon names
+   * Opens the modal and adds the tab bar above the search input
+   */
+  onOpen(): void {
+    super.onOpen()
+
+    const tabBar = createDiv({ cls: "icon-picker-tabs" })
+    this.inputEl.parentElement?.before(tabBar)
+
+    const tabs: Record<IconPickerTab, string> = {
+      icons: "Icons",
+      emoji: "Emoji",
+    }
+    for (const [tab, label] of Object.entries(tabs) as [
+      IconPickerTab,
+      string,
+    ][]) {
+      const tabEl = tabBar.createEl("button", {
+        text: label,
+        cls: "icon-picker-tab",
+      })
+      tabEl.toggleClass("is-active", tab === this.tab)
+      tabEl.addEventListener("click", () => {
+        this.tab = tab
+        tabBar
+          .querySelectorAll(".icon-picker-tab")
+          .forEach(el => el.toggleClass("is-active", el === tabEl))
+        this.setPlaceholder(
+          tab === "emoji"
+            ? "Search for an emoji..."
+            : "Search for a Lucide icon..."
+        )
+        // Re-run the search with the current query
+        this.inputEl.dispatchEvent(new Event("input"))
+        this.inputEl.focus()
+      })
+    }
+  }
+
+  /**
+   * Returns the icon names or emoji of the active tab
    *
-   * @returns Array of icon name strings to display in the modal
+   * @returns Array of icon values to display in the modal
    */
   getItems(): string[] {
-    return this.allIcons
+    return this.tab === "emoji"
+      ? EMOJI_LIST.map(entry => entry.emoji)
+      : this.allIcons
   }
 
   /**
-   * Returns the display text for an icon in the suggestion list
+   * Returns the searchable text for an icon in the suggestion list
    *
-   * @param iconName - The name of the icon
-   * @returns The display text for the icon
+   * @param iconName - The name of the icon, or an emoji
+   * @returns The icon name, or the emoji's name
    */
   getItemText(iconName: string): string {
-    return iconName
+    return this.emojiNames.get(iconName) ?? iconName
   }
 
   /**
@@ -75,7 +130,7 @@ export class IconPickerModal extends FuzzySuggestModal<string> {
    * Renders a single icon suggestion in the modal list
    *
    * This method creates the DOM structure for displaying each icon suggestion,
-   * including a visual preview of the icon and its name. The suggestion is
+   * including a visual preview of the icon (or emoji) and its name. The suggestion is
    * rendered inside a container with specific CSS classes for styling.
    *
    * @param match - The fuzzy match result from the search
@@ -89,11 +144,11 @@ export class IconPickerModal extends FuzzySuggestModal<string> {
 
     // Icon preview
     const iconEl = container.createSpan({ cls: "icon-picker-icon" })
-    setIcon(iconEl, iconName)
+    IconElementFactory.setIconContent(iconEl, iconName)
 
     // Icon name
     container.createSpan({
-      text: iconName,
+      text: this.getItemText(iconName),
       cls: "icon-picker-name",
     })
   }
@@ -170,4 +170,41 @@ export class IconRenderer extends Component {
     this.fileViewRenderer.updateSingleFileIcon(file)
     this.wikilinkRenderer.updateWikilinksForFile(file)
   }
+
+  /**
+   * Updates icons for several files across all rendering locations
+   *
+   * Used after edits to tag or folder mappings, which affect only the files
+   * that carry the tag or match the path. Folder icons in the file explorer
+   * are updated too, since folder mappings also apply to folders.
+   *
+   * @param files - The files whose icons should be updated
+   */
+  updateFileIcons(files: TFile[]): void {
+    this.fileListRenderer.updateFileIcons(files)
+    this.fileListRenderer.updateFolderIcons()
+    files.forEach(file => this.fileViewRenderer.updateSingleFileIcon(file))
+    this.wikilinkRenderer.updateWikilinksForFiles(files)
+  }
+
+  /**
+   * Updates all file and folder icons in file lists
+   *
+   * Used after changes that are not tied to a single file, such as setting
+   * an icon on a folder.
+   */
+  updateFileListIcons(): void {
+    this.fileListRenderer.updateFileExplorerIcons()
+  }
+
+  /**
+   * Updates all icons in file lists and file views
+   *
+   * Used after changes that may affect many files at once, such as editing a
+   * folder note that its folder's files inherit their icon from.
+   */
+  updateAllIcons(): void {
+    this.fileListRenderer.updateFileExplorerIcons()
+    this.fileViewRenderer.updateFileViewIcons()
+  }
 }
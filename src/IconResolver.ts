@@ -3,31 +3,145 @@
  *
  * This file provides the IconResolver class that determines which icon should
  * be displayed for each file based on plugin settings. The resolver implements
- * a multi-source resolution strategy with caching for performance:
+ * a multi-source resolution strategy with caching for performance. Each
+ * source is an icon provider (see the providers folder); other plugins can
+ * register providers of their own next to the built-in ones:
  *
- * 1. Frontmatter (highest priority) - read icon from file's frontmatter
- * 2. Tags - match file tags to configured tag-to-icon mappings
- * 3. Folders (lowest priority) - match file path to configured folder mappings
+ * - Frontmatter - read icon from file's frontmatter
+ * - Rules - evaluate compound rules combining tags, paths, and properties
+ * - Properties - match frontmatter property values to property mappings
+ * - Tags - match file tags to configured tag-to-icon mappings
+ * - Extensions - match file extensions to extension mappings and built-in
+ *   defaults (so attachments such as PDFs and images get icons too)
+ * - Folder notes - inherit the frontmatter icon of the nearest ancestor folder
+ *   note (e.g. projects/Alpha/Alpha.md or index.md)
+ * - Folders - match file path to configured folder mappings, glob patterns,
+ *   or regular expressions
  *
- * Results are cached to minimize metadata lookups and improve performance.
+ * Files no source matches get the fallback icon, if enabled: the first
+ * matching fallback mapping for the file's type, otherwise the default
+ * fallback icon. Callers name the location they render in, so that fallback
+ * icons are only returned where they are enabled.
+ *
+ * Links to files that don't exist are resolved separately: when enabled, they
+ * get the icon the new file would get from its path (extensions, folder
+ * notes, folders), or otherwise the unresolved link icon.
+ *
+ * When badges are enabled, the badge rules are evaluated independently and
+ * the first match is attached to the file's icon as a badge.
+ *
+ * Folders shown in the file explorer are resolved separately: an icon set
+ * directly on the folder wins, otherwise a folder mapping targeting the
+ * folder itself applies.
+ *
+ * Providers are checked in the order configured in the settings (by default
+ * the order listed above, with registered providers placed by their
+ * priority). Every resolved icon carries a short reason naming the setting
+ * that provided it, and explainIconForFile reports the outcome of every
+ * source for debugging. Results are cached to minimize metadata lookups and
+ * improve performance.
+ *
+ * Cached files are also indexed by tag and by folder, so that editing a tag
+ * or folder mapping only invalidates the files it can affect.
  */
 
-import { App, CachedMetadata, TFile } from "obsidian"
-import { IconCache, PluginSettings } from "./types"
+import {
+  App,
+  CachedMetadata,
+  getIconIds,
+  getLinkpath,
+  normalizePath,
+  TFile,
+  TFolder,
+} from "obsidian"
+import { resolveIconAlias } from "./IconAliases"
+import { isValidIcon, normalizeIconName } from "./IconName"
+import {
+  collectFileTags,
+  comparePathMatches,
+  isGlobPattern,
+  matchExtension,
+  matchPath,
+  normalizePath as normalizeFolderPath,
+  normalizeTag,
+  PathMatch,
+  tagMatches,
+} from "./matchers"
+import {
+  BuiltInProvider,
+  ExtensionProvider,
+  FolderNoteProvider,
+  FolderProvider,
+  FrontmatterProvider,
+  getColorFromFrontmatter,
+  getFolderNoteNames,
+  getFrontmatterValue,
+  getIconProperties,
+  InlineFieldProvider,
+  matchRules,
+  PropertyProvider,
+  RuleProvider,
+  TagProvider,
+} from "./providers"
+import {
+  FolderIconCache,
+  FolderMapping,
+  IconCache,
+  IconChange,
+  IconProvider,
+  IconSource,
+  IconTrace,
+  IconTraceStep,
+  PluginSettings,
+  ProviderIcon,
+  RenderLocation,
+  ResolvedFolderIcon,
+  ResolvedIcon,
+  SOURCE_ENABLE_SETTINGS,
+  TagMapping,
+} from "./types"
+
+/** Number of files resolved between pauses in collectIconChanges */
+const RESOLVE_BATCH_SIZE = 500
 
 /**
  * Resolves the appropriate icon for files based on settings and metadata
  *
  * The IconResolver implements a priority-based resolution system that checks
- * multiple sources (frontmatter, tags, folders) to determine which icon should
- * be displayed for a file. All results are cached to improve performance when
- * the same file is rendered multiple times. The cache is invalidated when
- * settings change or when individual files are updated.
+ * multiple providers (frontmatter, rules, properties, tags, extensions,
+ * folders, and registered ones) in the configured order to determine which
+ * icon should be displayed for a file. All results are cached to improve
+ * performance when the same file is rendered multiple times. The cache is
+ * invalidated when settings change or when individual files are updated.
  */
 export class IconResolver {
   private app: App
   private settings: PluginSettings
   private cache: IconCache
+  private folderCache: FolderIconCache
+
+  /** The built-in providers, followed by those registered by other plugins */
+  private builtInProviders: BuiltInProvider[]
+  private providers: IconProvider[]
+  /** The inline field provider, which is given the content of notes */
+  private inlineFieldProvider: InlineFieldProvider
+
+  /** Cached file paths indexed by the tags on the file */
+  private tagIndex: Map<string, Set<string>>
+  /** Cached file paths indexed by the path of their folder */
+  private folderIndex: Map<string, Set<string>>
+  /** The tags each cached file was indexed under */
+  private indexedTags: Map<string, string[]>
+
+  /** Tag and folder mappings (as JSON) the cached icons were resolved with */
+  private resolvedTagMappings: string[]
+  private resolvedFolderMappings: string[]
+
+  /** Icons of invalidated files, kept until compared by collectIconChanges */
+  private previousIcons: Map<string, ResolvedIcon | null> = new Map()
+
+  /** Whether each icon name checked so far can be rendered */
+  private knownIcons: Map<string, boolean> = new Map()
 
   /**
    * Creates a new IconResolver instance
@@ -38,7 +152,19 @@ export class IconResolver {
   constructor(app: App, settings: PluginSettings) {
     this.app = app
     this.settings = settings
-    this.cache = {}
+    this.inlineFieldProvider = new InlineFieldProvider(app, settings)
+    this.builtInProviders = [
+      new FrontmatterProvider(app, settings),
+      this.inlineFieldProvider,
+      new RuleProvider(app, settings),
+      new PropertyProvider(app, settings),
+      new TagProvider(app, settings),
+      new ExtensionProvider(app, settings),
+      new FolderNoteProvider(app, settings),
+      new FolderProvider(app, settings),
+    ]
+    this.providers = [...this.builtInProviders]
+    this.clearCache()
   }
 
   /**
@@ -52,6 +178,7 @@ export class IconResolver {
    */
   updateSettings(settings: PluginSettings): void {
     this.settings = settings
+    this.builtInProviders.forEach(provider => provider.updateSettings(settings))
     this.clearCache()
   }
 
@@ -62,7 +189,309 @@ export class IconResolver {
    * This is useful when settings change or when you need to force a full refresh.
    */
   clearCache(): void {
+    for (const path of Object.keys(this.cache ?? {})) {
+      this.rememberPreviousIcon(path)
+    }
     this.cache = {}
+    this.folderCache = {}
+    this.knownIcons = new Map()
+    this.tagIndex = new Map()
+    this.folderIndex = new Map()
+    this.indexedTags = new Map()
+    this.resolvedTagMappings = this.settings.tagMappings.map(mapping =>
+      JSON.stringify(mapping)
+    )
+    this.resolvedFolderMappings = this.settings.folderMappings.map(mapping =>
+      JSON.stringify(mapping)
+    )
+  }
+
+  /**
+   * Invalidates the files affected by edited tag and folder mappings
+   *
+   * Compares the mappings with those the cache was resolved with. Only the
+   * files carrying the tag of an added, edited, moved, or removed tag mapping
+   * (or a tag nested below it), and the files matching the old or new path of
+   * a changed folder mapping, are looked up in the indexes and invalidated.
+   * Folder icons are all invalidated when folder mappings changed.
+   *
+   * @returns The files whose icon may have changed
+   */
+  invalidateChangedMappings(): TFile[] {
+    const paths = new Set<string>()
+
+    const tagMappings = this.settings.tagMappings.map(mapping =>
+      JSON.stringify(mapping)
+    )
+    for (const json of getChangedEntries(
+      this.resolvedTagMappings,
+      tagMappings
+    )) {
+      const mapping: TagMapping = JSON.parse(json)
+      this.getPathsWithTag(normalizeTag(mapping.tag)).forEach(path =>
+        paths.add(path)
+      )
+    }
+
+    const folderMappings = this.settings.folderMappings.map(mapping =>
+      JSON.stringify(mapping)
+    )
+    const changedFolderMappings = getChangedEntries(
+      this.resolvedFolderMappings,
+      folderMappings
+    )
+    for (const json of changedFolderMappings) {
+      const mapping: FolderMapping = JSON.parse(json)
+      this.getPathsMatchingFolderMapping(mapping).forEach(path =>
+        paths.add(path)
+      )
+    }
+    if (changedFolderMappings.length > 0) {
+      this.folderCache = {}
+    }
+
+    this.resolvedTagMappings = tagMappings
+    this.resolvedFolderMappings = folderMappings
+
+    const files: TFile[] = []
+    for (const path of paths) {
+      this.invalidatePath(path)
+      const file = this.app.vault.getAbstractFileByPath(path)
+      if (file instanceof TFile) {
+        files.push(file)
+      }
+    }
+    return files
+  }
+
+  /**
+   * Invalidates the icons that depend on the registered icon pack icons
+   *
+   * Called after icon packs were reloaded with a different set of icons.
+   * Only files whose cached icon, open icon, or badge is a pack icon, and
+   * notes whose icon property names a pack icon or holds a list (where the
+   * first known entry may have changed), are invalidated. If the settings
+   * use one of the added or removed icons, the whole cache is cleared
+   * instead, since any mapping or rule may resolve differently.
+   *
+   * @param changedIds - The icon IDs that were added or removed
+   * @returns The files whose icon may have changed, or null if the whole
+   *   cache was cleared
+   */
+  invalidatePackIcons(changedIds: string[]): TFile[] | null {
+    const settings = JSON.stringify(this.settings).toLowerCase()
+    if (changedIds.some(id => settings.includes(JSON.stringify(id)))) {
+      this.clearCache()
+      return null
+    }
+
+    for (const name of this.knownIcons.keys()) {
+      if (isPackIcon(name)) this.knownIcons.delete(name)
+    }
+    this.folderCache = {}
+
+    const files: TFile[] = []
+    for (const [path, icon] of Object.entries(this.cache)) {
+      const file = this.app.vault.getAbstractFileByPath(path)
+      if (!(file instanceof TFile)) continue
+
+      if (
+        isPackIcon(icon?.icon) ||
+        isPackIcon(icon?.badge?.icon) ||
+        this.hasPackIconProperty(file)
+      ) {
+        this.invalidatePath(path)
+        files.push(file)
+      }
+    }
+    return files
+  }
+
+  /**
+   * Checks whether a note's icon property may name a pack icon
+   *
+   * @param file - The note
+   * @returns True if an icon property is a pack icon or a list
+   */
+  private hasPackIconProperty(file: TFile): boolean {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter
+    if (!frontmatter) return false
+
+    return getIconProperties(this.settings).some(property => {
+      const value = getFrontmatterValue(frontmatter, property)
+      return (
+        Array.isArray(value) || (typeof value === "string" && isPackIcon(value))
+      )
+    })
+  }
+
+  /**
+   * Returns the cached files carrying a tag or a tag nested below it
+   *
+   * @param tag - The normalized tag
+   * @returns The paths of the matching files
+   */
+  private getPathsWithTag(tag: string): string[] {
+    const paths: string[] = []
+    for (const [fileTag, filePaths] of this.tagIndex) {
+      if (tagMatches(fileTag, tag)) {
+        paths.push(...filePaths)
+      }
+    }
+    return paths
+  }
+
+  /**
+   * Returns the cached files a folder mapping matches
+   *
+   * Plain paths are looked up by folder. Glob patterns and regular
+   * expressions can match any path, so every cached file is tested.
+   *
+   * @param mapping - The folder mapping
+   * @returns The paths of the matching files
+   */
+  private getPathsMatchingFolderMapping(mapping: FolderMapping): string[] {
+    if (mapping.regex || isGlobPattern(mapping.path)) {
+      return Array.from(this.indexedTags.keys()).filter(path =>
+        matchPath(path, mapping)
+      )
+    }
+
+    // A plain path matches a folder with everything inside it, or one file
+    const path = normalizeFolderPath(mapping.path)
+    const paths = this.indexedTags.has(path) ? [path] : []
+    for (const [folderPath, filePaths] of this.folderIndex) {
+      if (
+        path === "" ||
+        folderPath === path ||
+        folderPath.startsWith(path + "/")
+      ) {
+        paths.push(...filePaths)
+      }
+    }
+    return paths
+  }
+
+  /**
+   * Adds a cached file to the tag and folder indexes
+   *
+   * @param file - The file whose icon was just cached
+   */
+  private indexFile(file: TFile): void {
+    this.unindexPath(file.path)
+
+    const metadata = this.app.metadataCache.getFileCache(file)
+    const tags = metadata ? Array.from(new Set(collectFileTags(metadata))) : []
+    tags.forEach(tag => addToIndex(this.tagIndex, tag, file.path))
+    this.indexedTags.set(file.path, tags)
+    addToIndex(this.folderIndex, getFolderPath(file.path), file.path)
+  }
+
+  /**
+   * Removes a path from the tag and folder indexes
+   *
+   * @param path - The path of the file
+   */
+  private unindexPath(path: string): void {
+    const tags = this.indexedTags.get(path)
+    if (!tags) return
+
+    tags.forEach(tag => removeFromIndex(this.tagIndex, tag, path))
+    removeFromIndex(this.folderIndex, getFolderPath(path), path)
+    this.indexedTags.delete(path)
+  }
+
+  /**
+   * Removes a path from the cache and the indexes
+   *
+   * @param path - The path of the file
+   */
+  private invalidatePath(path: string): void {
+    this.rememberPreviousIcon(path)
+    delete this.cache[path]
+    this.unindexPath(path)
+  }
+
+  /**
+   * Keeps the cached icon of a path for collectIconChanges
+   *
+   * When a path is invalidated several times before the changes are
+   * collected, the icon from before the first invalidation is kept.
+   *
+   * @param path - The path of the file
+   * @param icon - The previous icon, defaults to the cached one
+   */
+  private rememberPreviousIcon(
+    path: string,
+    icon: ResolvedIcon | null | undefined = this.cache[path]
+  ): void {
+    // Files that were never resolved have not been shown either
+    if (icon !== undefined && !this.previousIcons.has(path)) {
+      this.previousIcons.set(path, icon)
+    }
+  }
+
+  /**
+   * Resolves invalidated files again and returns the icons that changed
+   *
+   * Every file is compared with the icon it had before it was first
+   * invalidated, so only actual changes are reported. Deleted files are
+   * skipped. Files are resolved in batches, pausing in between so that the
+   * interface stays responsive after the whole cache was cleared.
+   *
+   * @returns The changed icons, one entry per file
+   */
+  async collectIconChanges(): Promise<IconChange[]> {
+    const previous = this.previousIcons
+    this.previousIcons = new Map()
+
+    const changes: IconChange[] = []
+    let count = 0
+    for (const [path, oldIcon] of previous) {
+      const file = this.app.vault.getAbstractFileByPath(path)
+      if (!(file instanceof TFile)) continue
+
+      const newIcon = this.getIconForFile(file)
+      if (JSON.stringify(oldIcon) !== JSON.stringify(newIcon)) {
+        changes.push({ file, oldIcon, newIcon })
+      }
+
+      if (++count % RESOLVE_BATCH_SIZE === 0) {
+        await new Promise(resolve => window.setTimeout(resolve, 0))
+      }
+    }
+    return changes
+  }
+
+  /**
+   * Returns a copy of the cached file icons
+   *
+   * Used by IconIndex to persist resolved icons between sessions.
+   *
+   * @returns The cached icons indexed by file path
+   */
+  getCachedIcons(): IconCache {
+    return { ...this.cache }
+  }
+
+  /**
+   * Fills the cache with previously resolved icons
+   *
+   * Entries already in the cache are kept, since they were resolved from
+   * current metadata.
+   *
+   * @param icons - The icons to add, indexed by file path
+   */
+  seedCache(icons: IconCache): void {
+    for (const [path, icon] of Object.entries(icons)) {
+      if (this.cache[path] === undefined) {
+        this.cache[path] = icon
+        const file = this.app.vault.getAbstractFileByPath(path)
+        if (file instanceof TFile) {
+          this.indexFile(file)
+        }
+      }
+    }
   }
 
   /**
@@ -74,149 +503,565 @@ export class IconResolver {
    * @param file - The file whose cache entry should be invalidated
    */
   invalidateFile(file: TFile): void {
-    delete this.cache[file.path]
+    this.invalidatePath(file.path)
+  }
+
+  /**
+   * Invalidates the cache entries of a renamed file
+   *
+   * The icon cached under the old path counts as the file's previous icon,
+   * so that collectIconChanges reports a change caused by the move.
+   *
+   * @param file - The renamed file
+   * @param oldPath - The path of the file before the rename
+   */
+  invalidateRenamedFile(file: TFile, oldPath: string): void {
+    this.inlineFieldProvider.renameContent(oldPath, file.path)
+    this.rememberPreviousIcon(file.path, this.cache[oldPath])
+    this.invalidatePath(oldPath)
+    this.invalidatePath(file.path)
+  }
+
+  /**
+   * Passes the content of a note to the inline field source
+   *
+   * The cache entry of the note is not invalidated, callers do so when the
+   * note's fields changed.
+   *
+   * @param file - The note
+   * @param content - The note's content, or null if the note was deleted
+   * @returns True if the note's inline icon or color field changed
+   */
+  setFileContent(file: TFile, content: string | null): boolean {
+    return this.inlineFieldProvider.setContent(file, content)
+  }
+
+  /**
+   * Returns whether the content of a note was passed to setFileContent
+   *
+   * @param file - The note
+   * @returns True if the inline field source knows the note's fields
+   */
+  hasFileContent(file: TFile): boolean {
+    return this.inlineFieldProvider.hasContent(file.path)
+  }
+
+  /**
+   * Invalidates the cache entries of all files inside a folder
+   *
+   * Used when a folder note changes, since every file below its folder may
+   * inherit the folder note's icon.
+   *
+   * @param folderPath - The folder whose descendants should be invalidated
+   */
+  invalidateFolder(folderPath: string): void {
+    const prefix = folderPath + "/"
+    for (const path of Object.keys(this.cache)) {
+      if (path.startsWith(prefix)) {
+        this.invalidatePath(path)
+      }
+    }
+  }
+
+  /**
+   * Returns the folder a path is the folder note of
+   *
+   * Works on paths rather than files so that it can also be used for deleted
+   * and renamed files. Folder notes are markdown files named after one of the
+   * configured folder note names, where "{folder}" stands for the name of the
+   * folder containing the note.
+   *
+   * @param path - The file path to check
+   * @returns The folder path, or null if the path is not a folder note
+   */
+  getFolderNoteFolder(path: string): string | null {
+    if (!this.settings.enableFolderNotes || !path.endsWith(".md")) return null
+
+    const slash = path.lastIndexOf("/")
+    if (slash === -1) return null // Folder notes in the vault root are ignored
+
+    const folderPath = path.slice(0, slash)
+    const basename = path.slice(slash + 1, -".md".length)
+    const folderName = folderPath.slice(folderPath.lastIndexOf("/") + 1)
+
+    return getFolderNoteNames(this.settings, folderName).includes(basename)
+      ? folderPath
+      : null
+  }
+
+  /**
+   * Registers an icon provider from another plugin
+   *
+   * The provider is placed in the priority order by its priority, until the
+   * user moves it, and can be turned off in the settings.
+   *
+   * @param provider - The provider to register
+   * @throws If a provider with the same id is already registered
+   */
+  registerProvider(provider: IconProvider): void {
+    if (this.providers.some(existing => existing.id === provider.id)) {
+      throw new Error(
+        `Simple Icons: an icon provider with id "${provider.id}" is already registered`
+      )
+    }
+    this.providers.push(provider)
+    this.clearCache()
+  }
+
+  /**
+   * Removes a provider registered with registerProvider
+   *
+   * @param provider - The provider to remove
+   */
+  unregisterProvider(provider: IconProvider): void {
+    const index = this.providers.indexOf(provider)
+    if (index === -1 || index < this.builtInProviders.length) return
+
+    this.providers.splice(index, 1)
+    this.clearCache()
+  }
+
+  /**
+   * Returns the providers in the configured order
+   *
+   * The default order sorts the providers by priority. Unknown entries in the
+   * configured order are skipped, and providers missing from it (e.g. newly
+   * registered ones) are inserted before the provider that follows them in
+   * the default order, so every provider appears exactly once.
+   *
+   * @returns The providers in the order they are checked
+   */
+  getProviders(): IconProvider[] {
+    const byPriority = [...this.providers].sort(
+      (a, b) => a.priority - b.priority
+    )
+    const configured = Array.isArray(this.settings.sourceOrder)
+      ? this.settings.sourceOrder
+      : []
+
+    const order: IconProvider[] = []
+    configured.forEach(id => {
+      const provider = byPriority.find(p => p.id === id)
+      if (provider && !order.includes(provider)) order.push(provider)
+    })
+    byPriority.forEach((provider, index) => {
+      if (order.includes(provider)) return
+      const next = byPriority.slice(index + 1).find(p => order.includes(p))
+      order.splice(next ? order.indexOf(next) : order.length, 0, provider)
+    })
+    return order
+  }
+
+  /**
+   * Checks whether a provider is enabled in the settings
+   *
+   * Built-in providers have their own toggle; registered providers are
+   * enabled unless listed in disabledProviders.
+   *
+   * @param id - The provider id
+   * @returns True if the provider takes part in resolution
+   */
+  isProviderEnabled(id: string): boolean {
+    const setting = SOURCE_ENABLE_SETTINGS[id as IconSource]
+    return setting
+      ? this.settings[setting]
+      : !this.settings.disabledProviders.includes(id)
   }
 
   /**
    * Resolves the icon for a file using priority-based resolution
    *
    * This is the main method for determining which icon to display for a file.
-   * It checks three sources in priority order:
-   * 1. Frontmatter - highest priority, reads icon from file frontmatter
-   * 2. Tags - matches file tags to configured tag-to-icon mappings
-   * 3. Folders - matches file path to configured folder-to-icon mappings
+   * It checks the enabled providers in the order returned by getProviders,
+   * and the first provider returning an icon wins. Icons that are not
+   * registered with Obsidian (see isKnownIcon) are skipped, so a mistyped
+   * name falls through to the next source instead of rendering nothing.
    *
-   * Results are cached to avoid re-computing the same icon multiple times.
-   * The cache is automatically cleared when settings change.
+   * When no source matches, the fallback icon is used if enabled (see
+   * getFallbackIcon). It is only returned for locations where fallback icons
+   * are shown, or when no location is given.
+   *
+   * The color comes from the matching source, unless the file's frontmatter
+   * specifies a color which then overrides it. When badges are enabled, the
+   * first matching badge rule adds a badge to the icon; files without an icon
+   * show no badge. Results are cached to avoid
+   * re-computing the same icon multiple times. The cache is automatically
+   * cleared when settings change.
    *
    * @param file - The file to resolve an icon for
-   * @returns The icon name to display, or null if no matching icon is found
+   * @param location - The location the icon is rendered in, if any
+   * @returns The resolved icon to display, or null if no matching icon is found
    */
-  getIconForFile(file: TFile): string | null {
+  getIconForFile(file: TFile, location?: RenderLocation): ResolvedIcon | null {
     // Check cache first
-    if (this.cache[file.path] !== undefined) {
-      return this.cache[file.path]
+    if (this.cache[file.path] === undefined) {
+      this.cache[file.path] = this.resolveIconForFile(file)
+      this.indexFile(file)
+    }
+
+    const resolved = this.cache[file.path]
+    if (
+      resolved?.isFallback &&
+      location &&
+      !this.settings.fallbackLocations[location]
+    ) {
+      return null
     }
+    return resolved
+  }
 
+  /**
+   * Resolves the icon for a file without consulting the cache
+   *
+   * @param file - The file to resolve an icon for
+   * @returns The resolved icon, including fallback icons, or null
+   */
+  private resolveIconForFile(file: TFile): ResolvedIcon | null {
     const metadata = this.app.metadataCache.getFileCache(file)
-    let icon: string | null = null
-
-    // 1. Check frontmatter (highest priority)
-    if (this.settings.enableFrontmatter && metadata?.frontmatter) {
-      icon = this.getIconFromFrontmatter(metadata)
-      if (icon) {
-        this.cache[file.path] = icon
-        return icon
+    let resolved: ResolvedIcon | null = null
+
+    for (const provider of this.getProviders()) {
+      if (!this.isProviderEnabled(provider.id)) continue
+      const candidate = this.prepareIcon(
+        this.getIconFromProvider(provider, file, metadata)
+      )
+      if (candidate) {
+        resolved = candidate
+        break
       }
     }
 
-    // 2. Check tags
-    if (this.settings.enableTags && metadata) {
-      icon = this.getIconFromTags(metadata)
-      if (icon) {
-        this.cache[file.path] = icon
-        return icon
+    if (!resolved && this.settings.enableFallbackIcon) {
+      resolved = this.prepareIcon(this.getFallbackIcon(file))
+    }
+
+    // A frontmatter color applies regardless of which source matched
+    if (resolved && this.settings.enableFrontmatter && metadata?.frontmatter) {
+      const color = getColorFromFrontmatter(metadata, this.settings)
+      if (color) {
+        const property = this.settings.frontmatterColorProperty || "icon-color"
+        resolved = {
+          ...resolved,
+          color,
+          reason: `${resolved.reason}, color from frontmatter property "${property}"`,
+        }
       }
     }
 
-    // 3. Check folders (lowest priority)
-    if (this.settings.enableFolders) {
-      icon = this.getIconFromFolder(file)
-      if (icon) {
-        this.cache[file.path] = icon
-        return icon
+    if (resolved && this.settings.enableBadges) {
+      const badge = this.prepareIcon(
+        matchRules(this.settings.badgeRules, file, metadata)
+      )
+      if (badge) {
+        resolved = { ...resolved, badge }
       }
     }
 
-    // Cache null result
-    this.cache[file.path] = null
-    return null
+    return resolved
   }
 
   /**
-   * Extracts the icon name from a file's frontmatter
+   * Checks whether an icon name can be rendered
    *
-   * Checks the file's frontmatter for an icon property (configurable in settings).
-   * If found and not empty, returns the icon name. The property name is
-   * configurable via the frontmatterProperty setting (defaults to "icon").
+   * Names are looked up in the icons registered with Obsidian (Lucide and
+   * loaded icon packs) once per cache lifetime; reloading icon packs forgets
+   * the pack icons (see invalidatePackIcons), so newly registered icons are
+   * picked up.
    *
-   * @param metadata - The cached metadata for the file
-   * @returns The icon name from frontmatter, or null if not found
+   * @param icon - The icon name or text glyph, with aliases replaced
+   * @returns True if the icon can be rendered
    */
-  private getIconFromFrontmatter(metadata: CachedMetadata): string | null {
-    const property = this.settings.frontmatterProperty || "icon"
-    const iconName = metadata.frontmatter?.[property]
-
-    if (typeof iconName === "string" && iconName.trim() !== "") {
-      return iconName
+  isKnownIcon(icon: string): boolean {
+    const name = icon.trim()
+    let known = this.knownIcons.get(name)
+    if (known === undefined) {
+      known = isValidIcon(name)
+      this.knownIcons.set(name, known)
     }
+    return known
+  }
 
-    return null
+  /**
+   * Replaces aliases in an icon from the settings and checks that it exists
+   *
+   * An unknown open icon or badge is dropped, keeping the icon itself.
+   *
+   * @param resolved - The icon to prepare
+   * @returns The icon with canonical names, or null if its icon is unknown
+   */
+  private prepareIcon<T extends ResolvedFolderIcon>(
+    resolved: T | null
+  ): T | null {
+    const aliased = this.applyAliases(resolved)
+    if (!aliased || !this.isKnownIcon(aliased.icon)) return null
+
+    if (aliased.openIcon && !this.isKnownIcon(aliased.openIcon)) {
+      delete aliased.openIcon
+    }
+    if (aliased.badge && !this.isKnownIcon(aliased.badge.icon)) {
+      delete aliased.badge
+    }
+    return aliased
   }
 
   /**
-   * Resolves icon based on file tags using configured tag mappings
+   * Replaces icon aliases in a resolved icon with the icons they stand for
    *
-   * Checks all tags on the file against the configured tag mappings in priority order.
-   * Returns the icon associated with the first matching tag. Tags can come from:
-   * 1. Inline tags in the document body (stored in metadata.tags)
-   * 2. Frontmatter tags (stored in metadata.frontmatter.tags array)
+   * See resolveIconAlias, which also normalizes how names are written. The
+   * open icon of folders and the badge are replaced as well. The reason
+   * names the alias or the name as written, so that explanations show which
+   * name was written.
    *
-   * Tags are normalized by trimming whitespace and removing the '#' prefix if present.
+   * @param resolved - The resolved icon
+   * @returns The icon with canonical icon names, or null
+   */
+  private applyAliases<T extends ResolvedFolderIcon>(
+    resolved: T | null
+  ): T | null {
+    if (!resolved) return null
+
+    const written = resolved.icon.trim()
+    const icon = resolveIconAlias(written, this.settings)
+    const aliased: T = { ...resolved, icon }
+    if (icon !== written && resolved.reason) {
+      const change =
+        icon === normalizeIconName(written)
+          ? `written as "${written}"`
+          : `alias "${written}"`
+      aliased.reason = `${resolved.reason} (${change})`
+    }
+    if (resolved.openIcon) {
+      aliased.openIcon = resolveIconAlias(resolved.openIcon, this.settings)
+    }
+    if (resolved.badge) {
+      aliased.badge = this.applyAliases(resolved.badge) ?? undefined
+    }
+    return aliased
+  }
+
+  /**
+   * Explains how the icon for a file is resolved
+   *
+   * Checks every source in the configured order, including those after the
+   * one that provides the icon, so that shadowed candidates can be shown.
+   * The cache is bypassed, so the explanation always reflects the current
+   * settings and metadata.
    *
-   * @param metadata - The cached metadata for the file
-   * @returns The icon name from tag mapping, or null if no tags match
+   * @param file - The file to explain
+   * @returns The outcome of every source and the final icon
    */
-  private getIconFromTags(metadata: CachedMetadata): string | null {
-    const allTags: string[] = []
+  explainIconForFile(file: TFile): IconTrace {
+    const metadata = this.app.metadataCache.getFileCache(file)
+    const steps: IconTraceStep[] = []
+    let matched = false
+
+    for (const provider of this.getProviders()) {
+      const { id: source, name } = provider
+      if (!this.isProviderEnabled(source)) {
+        steps.push({ source, name, status: "disabled" })
+        continue
+      }
 
-    // 1. Get inline tags (from document body like #tag)
-    if (metadata.tags && metadata.tags.length > 0) {
-      allTags.push(
-        ...metadata.tags.map(t => {
-          const tag = t.tag.trim()
-          return tag.startsWith("#") ? tag.substring(1) : tag
+      const icon = this.getIconFromProvider(provider, file, metadata)
+      const candidate = this.applyAliases(icon)
+      if (!icon || !candidate) {
+        steps.push({
+          source,
+          name,
+          status: "no-match",
+          detail: provider.describeNoMatch?.(file, metadata) ?? "No match",
         })
-      )
+      } else if (!this.isKnownIcon(candidate.icon)) {
+        steps.push({
+          source,
+          name,
+          status: "invalid",
+          detail: `Unknown icon "${candidate.icon.trim()}" (${candidate.reason})`,
+        })
+      } else {
+        steps.push({
+          source,
+          name,
+          status: matched ? "shadowed" : "matched",
+          candidate,
+          written:
+            candidate.icon !== icon.icon.trim() ? icon.icon.trim() : undefined,
+        })
+        matched = true
+      }
+    }
+
+    return { path: file.path, steps, resolved: this.resolveIconForFile(file) }
+  }
+
+  /**
+   * Asks a provider for the icon of a file
+   *
+   * Errors in providers registered by other plugins are logged rather than
+   * breaking icon resolution, and the icon defaults to naming the provider
+   * as its reason.
+   *
+   * @param provider - The provider to ask
+   * @param file - The file being resolved
+   * @param metadata - The cached metadata for the file, if any
+   * @returns The icon from the provider, or null if it has none
+   */
+  private getIconFromProvider(
+    provider: IconProvider,
+    file: TFile,
+    metadata: CachedMetadata | null
+  ): ResolvedIcon | null {
+    try {
+      return toResolvedIcon(provider, provider.getIcon(file, metadata))
+    } catch (e) {
+      console.error(`Simple Icons: icon provider "${provider.id}" failed`, e)
+      return null
+    }
+  }
+
+  /**
+   * Resolves the fallback icon for a file no source matched
+   *
+   * The fallback mappings are checked in priority order using the same
+   * patterns as extension mappings, so each file type can have its own
+   * default. Files of other types get the default fallback icon.
+   *
+   * @param file - The file to resolve a fallback icon for
+   * @returns The fallback icon, or null if none is configured
+   */
+  private getFallbackIcon(file: TFile): ResolvedIcon | null {
+    for (const mapping of this.settings.fallbackMappings) {
+      if (!mapping.icon || mapping.icon.trim() === "") continue
+
+      if (matchExtension(file, mapping.extension)) {
+        return {
+          icon: mapping.icon,
+          color: mapping.color,
+          isFallback: true,
+          reason: `Fallback mapping: ${mapping.extension}`,
+        }
+      }
     }
 
-    // 2. Get frontmatter tags (from YAML tags array)
-    if (metadata.frontmatter?.tags) {
-      // Frontmatter tags can be an array or single string
-      if (Array.isArray(metadata.frontmatter.tags)) {
-        allTags.push(
-          ...metadata.frontmatter.tags.map(tag => {
-            if (typeof tag === "string") {
-              const trimmed = tag.trim()
-              return trimmed.startsWith("#") ? trimmed.substring(1) : trimmed
-            }
-            return String(tag).trim()
-          })
-        )
-      } else if (typeof metadata.frontmatter.tags === "string") {
-        const trimmed = metadata.frontmatter.tags.trim()
-        allTags.push(trimmed.startsWith("#") ? trimmed.substring(1) : trimmed)
+    const icon = this.settings.fallbackIcon.trim()
+    return icon ? { icon, isFallback: true, reason: "Fallback icon" } : null
+  }
+
+  /**
+   * Resolves the icon for a link in a note
+   *
+   * The link is resolved the way Obsidian resolves it, ignoring any #heading
+   * or ^block subpath. Links to existing files get the file's icon, other
+   * links the unresolved link icon (see getIconForUnresolvedLink). Links to
+   * a heading or block in the same note get no icon.
+   *
+   * @param linktext - The link target as written in the note
+   * @param sourcePath - The path of the note containing the link
+   * @returns The resolved icon to display, or null if none applies
+   */
+  getIconForLink(linktext: string, sourcePath: string): ResolvedIcon | null {
+    const linkpath = getLinkpath(linktext)
+    if (linkpath.trim() === "") return null
+
+    const file = this.app.metadataCache.getFirstLinkpathDest(
+      linkpath,
+      sourcePath
+    )
+    return file
+      ? this.getIconForFile(file, "wikilinks")
+      : this.getIconForUnresolvedLink(linktext, sourcePath)
+  }
+
+  /**
+   * Resolves the icon for a link whose target file does not exist
+   *
+   * When prediction is enabled, the link gets the icon the file would get
+   * once created by following the link. Only the sources that depend on the
+   * file's path (extensions, folder notes, and folders) are checked, in the
+   * configured order, since a new note has no frontmatter or tags yet.
+   * Otherwise the unresolved link icon is used. Results are not cached, as
+   * they depend on the linking note.
+   *
+   * @param linktext - The link target, optionally with a #heading or ^block
+   * @param sourcePath - The path of the note containing the link
+   * @returns The icon marked as unresolved, or null if disabled or none applies
+   */
+  getIconForUnresolvedLink(
+    linktext: string,
+    sourcePath: string
+  ): ResolvedIcon | null {
+    if (!this.settings.enableUnresolvedLinkIcon) return null
+
+    const linkpath = getLinkpath(linktext).trim()
+    if (linkpath === "") return null
+
+    if (this.settings.predictUnresolvedLinkIcons) {
+      const predicted = this.predictIconForNewFile(
+        this.getNewFilePath(linkpath, sourcePath)
+      )
+      const prepared = this.prepareIcon(predicted)
+      if (prepared) {
+        return { ...prepared, isUnresolved: true }
       }
     }
 
-    if (allTags.length === 0) {
-      return null
+    const icon = this.settings.unresolvedLinkIcon.trim()
+    return icon
+      ? this.prepareIcon({
+          icon,
+          isUnresolved: true,
+          reason: "Unresolved link icon",
+        })
+      : null
+  }
+
+  /**
+   * Returns the path a file created by following a link would get
+   *
+   * Like Obsidian, ".md" is only appended to link paths without an
+   * extension, so links such as [[Board.canvas]] keep their file type. Link
+   * paths containing a folder are relative to the vault root; plain names
+   * are placed in the folder configured for new notes.
+   *
+   * @param linkpath - The link target without subpath
+   * @param sourcePath - The path of the note containing the link
+   * @returns The vault path of the new file
+   */
+  private getNewFilePath(linkpath: string, sourcePath: string): string {
+    const name = linkpath.split("/").pop() ?? linkpath
+    const fileName = /\.[a-z][a-z\d]*$/i.test(name)
+      ? linkpath
+      : `${linkpath}.md`
+    if (fileName.includes("/")) {
+      return normalizePath(fileName)
     }
 
-    // Check each tag mapping in priority order
-    for (const mapping of this.settings.tagMappings) {
-      // Normalize the mapping tag by trimming and removing # prefix if present
-      let normalizedMappingTag = mapping.tag.trim()
-      if (normalizedMappingTag.startsWith("#")) {
-        normalizedMappingTag = normalizedMappingTag.substring(1)
+    const parent = this.app.fileManager.getNewFileParent(sourcePath, fileName)
+    return normalizePath(
+      parent.isRoot() ? fileName : `${parent.path}/${fileName}`
+    )
+  }
+
+  /**
+   * Resolves the icon a file that does not exist yet would get
+   *
+   * Only providers that work from the path (those implementing
+   * getIconForPath) are asked.
+   *
+   * @param path - The vault path of the new file
+   * @returns The icon from the first path-based provider that matches, or null
+   */
+  private predictIconForNewFile(path: string): ResolvedIcon | null {
+    for (const provider of this.getProviders()) {
+      if (!provider.getIconForPath || !this.isProviderEnabled(provider.id)) {
+        continue
       }
 
-      if (
-        allTags.includes(normalizedMappingTag) &&
-        mapping.icon &&
-        mapping.icon.trim() !== ""
-      ) {
-        return mapping.icon
+      try {
+        const resolved = toResolvedIcon(provider, provider.getIconForPath(path))
+        if (resolved) return resolved
+      } catch (e) {
+        console.error(`Simple Icons: icon provider "${provider.id}" failed`, e)
       }
     }
 
@@ -224,54 +1069,182 @@ export class IconResolver {
   }
 
   /**
-   * Resolves icon based on file path using configured folder mappings
+   * Resolves the icon shown on a folder in the file explorer
    *
-   * Matches the file's path against configured folder paths. When multiple
-   * folders match, the deepest (most specific) match takes priority. This allows
-   * subfolders to override parent folder icons. Paths are normalized for
-   * comparison by removing leading/trailing slashes.
+   * An icon set directly on the folder takes priority. Otherwise, when folder
+   * mappings are enabled, the most specific mapping whose path targets the
+   * folder itself is used; mappings that only match a parent folder do not
+   * apply, so subfolders don't inherit their parent's icon.
    *
-   * @param file - The file to resolve folder-based icon for
-   * @returns The icon name from folder mapping, or null if no path matches
+   * @param folder - The folder to resolve an icon for
+   * @returns The resolved folder icon, or null if none applies
    */
-  private getIconFromFolder(file: TFile): string | null {
-    const filePath = file.path
-    let deepestMatch: { depth: number; icon: string } | null = null
+  getIconForFolder(folder: TFolder): ResolvedFolderIcon | null {
+    if (this.folderCache[folder.path] !== undefined) {
+      return this.folderCache[folder.path]
+    }
 
-    for (const mapping of this.settings.folderMappings) {
-      // Normalize paths for comparison
-      const folderPath = mapping.path.replace(/^\//, "").replace(/\/$/, "")
+    let resolved: ResolvedFolderIcon | null = null
 
-      // Check if file is in this folder
-      if (
-        filePath.startsWith(folderPath + "/") ||
-        filePath.startsWith(folderPath)
-      ) {
-        const depth = folderPath.split("/").length
+    const folderIcon = this.settings.folderIcons.find(
+      entry =>
+        entry.icon.trim() !== "" && normalizePath(entry.path) === folder.path
+    )
+    if (folderIcon) {
+      resolved = {
+        icon: folderIcon.icon,
+        openIcon: folderIcon.openIcon,
+        color: folderIcon.color,
+        reason: "Folder icon",
+      }
+    } else if (this.settings.enableFolders && !folder.isRoot()) {
+      let bestMatch: {
+        match: PathMatch
+        index: number
+        mapping: FolderMapping
+      } | null = null
+
+      for (const [index, mapping] of this.settings.folderMappings.entries()) {
+        if (!mapping.icon || mapping.icon.trim() === "") continue
+
+        const match = matchPath(folder.path, mapping)
+        if (!match?.fileLevel) continue
 
-        if (!deepestMatch || depth > deepestMatch.depth) {
-          if (mapping.icon && mapping.icon.trim() !== "") {
-            deepestMatch = { depth, icon: mapping.icon }
-          }
+        if (!bestMatch || comparePathMatches(match, bestMatch.match) > 0) {
+          bestMatch = { match, index, mapping }
+        }
+      }
+
+      if (bestMatch) {
+        const { index, mapping } = bestMatch
+        resolved = {
+          icon: mapping.icon,
+          openIcon: mapping.openIcon,
+          color: mapping.color,
+          reason: `Folder mapping ${index + 1}: ${mapping.path}`,
         }
       }
     }
 
-    return deepestMatch?.icon || null
+    resolved = this.prepareIcon(resolved)
+    this.folderCache[folder.path] = resolved
+    return resolved
   }
 
   /**
    * Returns the list of valid icon names for the icon picker modal
    *
-   * Currently returns an empty array as there is no static list to maintain.
-   * Users manually type icon names into the text input field. This design
-   * avoids the need to maintain a complete list of all available Lucide icons.
+   * Reads the icons registered with Obsidian at runtime, so there is no static
+   * list to maintain. Lucide icons are listed without their "lucide-" prefix,
+   * matching how users type icon names.
    *
-   * @returns Empty array - icon names are entered manually by users
+   * @returns Sorted icon names
    */
   getValidIconNames(): string[] {
-    // Return empty array - users type icon names manually in text input
-    // No maintenance required
-    return []
+    const names = getIconIds().map(id => id.replace(/^lucide-/, ""))
+    return Array.from(new Set(names)).sort()
+  }
+}
+
+/**
+ * Copies an icon returned by a provider into a resolved icon
+ *
+ * Only the fields a provider may set are copied, and icons without a name
+ * count as no icon.
+ *
+ * @param provider - The provider that returned the icon
+ * @param icon - The returned icon
+ * @returns The resolved icon, or null
+ */
+function toResolvedIcon(
+  provider: IconProvider,
+  icon: ProviderIcon | null
+): ResolvedIcon | null {
+  if (!icon || typeof icon.icon !== "string" || icon.icon.trim() === "") {
+    return null
+  }
+  return {
+    icon: icon.icon,
+    color: icon.color,
+    reason: icon.reason ?? provider.name,
+  }
+}
+
+/**
+ * Returns the entries that differ between two lists, compared by position
+ *
+ * @param before - The previous entries
+ * @param after - The current entries
+ * @returns The previous and current entries at every changed position
+ */
+function getChangedEntries(before: string[], after: string[]): string[] {
+  const changed: string[] = []
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    if (before[i] === after[i]) continue
+    if (before[i] !== undefined) changed.push(before[i])
+    if (after[i] !== undefined) changed.push(after[i])
+  }
+  return changed
+}
+
+/**
+ * Checks whether an icon name refers to an icon pack icon (e.g. "mypack:logo")
+ *
+ * @param icon - The icon name, if any
+ * @returns True if the name has a pack prefix
+ */
+function isPackIcon(icon: string | undefined): boolean {
+  return icon !== undefined && icon.includes(":")
+}
+
+/**
+ * Returns the path of the folder containing a file ("" for the vault root)
+ *
+ * @param path - The path of the file
+ * @returns The folder path
+ */
+function getFolderPath(path: string): string {
+  const slash = path.lastIndexOf("/")
+  return slash === -1 ? "" : path.slice(0, slash)
+}
+
+/**
+ * Adds a file path to a reverse index entry
+ *
+ * @param index - The index to update
+ * @param key - The tag or folder path
+ * @param path - The file path
+ */
+function addToIndex(
+  index: Map<string, Set<string>>,
+  key: string,
+  path: string
+): void {
+  const paths = index.get(key)
+  if (paths) {
+    paths.add(path)
+  } else {
+    index.set(key, new Set([path]))
+  }
+}
+
+/**
+ * Removes a file path from a reverse index entry
+ *
+ * @param index - The index to update
+ * @param key - The tag or folder path
+ * @param path - The file path
+ */
+function removeFromIndex(
+  index: Map<string, Set<string>>,
+  key: string,
+  path: string
+): void {
+  const paths = index.get(key)
+  if (!paths) return
+
+  paths.delete(path)
+  if (paths.size === 0) {
+    index.delete(key)
   }
 }
@@ -0,0 +1,147 @@
+/**
+ * IconTraceModal.ts
+ *
+ * This file provides the modal that explains why a file has its icon. It
+ * shows the final icon and lists every icon source in priority order with its
+ * outcome: the source that provided the icon, sources whose icon was shadowed
+ * by a higher priority, sources without a match (and why), sources naming an
+ * unknown icon, and disabled sources.
+ */
+
+import { App, Modal } from "obsidian"
+import { IconElementFactory } from "./IconElementFactory"
+import { IconTrace, IconTraceStatus, IconTraceStep } from "./types"
+
+/**
+ * Display names for each trace outcome
+ */
+const STATUS_LABELS: Record<IconTraceStatus, string> = {
+  matched: "Provides the icon",
+  shadowed: "Shadowed",
+  "no-match": "No match",
+  invalid: "Unknown icon",
+  disabled: "Disabled",
+}
+
+/**
+ * Modal showing how the icon of a file was resolved
+ */
+export class IconTraceModal extends Modal {
+  private trace: IconTrace
+
+  /**
+   * Creates a new icon trace modal
+   *
+   * @param app - The Obsidian App instance
+   * @param trace - The explanation to show (see IconResolver.explainIconForFile)
+   */
+  constructor(app: App, trace: IconTrace) {
+    super(app)
+    this.trace = trace
+  }
+
+  /**
+   * Opens the modal and renders the explanation
+   */
+  onOpen(): void {
+    const { contentEl } = this
+    contentEl.empty()
+    contentEl.addClass("icon-trace-modal")
+
+    contentEl.createEl("h2", { text: "Icon explanation" })
+    contentEl.createEl("p", {
+      text: this.trace.path,
+      cls: "icon-trace-path",
+    })
+
+    this.renderResult(contentEl)
+
+    contentEl.createEl("h4", { text: "Sources in priority order" })
+    const stepsEl = contentEl.createDiv({ cls: "icon-trace-steps" })
+    this.trace.steps.forEach((step, index) =>
+      this.renderStep(stepsEl, step, index)
+    )
+
+    const footer = contentEl.createDiv({ cls: "tag-mapping-modal-footer" })
+    footer.createDiv({
+      text: "Sources are checked from top to bottom; the first one with an icon wins.",
+      cls: "tag-mapping-status-bar",
+    })
+    const closeButton = footer.createEl("button", {
+      text: "Close",
+      cls: "mod-cta",
+    })
+    closeButton.addEventListener("click", () => this.close())
+  }
+
+  /**
+   * Renders the final icon with the settings that provided it
+   */
+  private renderResult(containerEl: HTMLElement): void {
+    const resultEl = containerEl.createDiv({ cls: "icon-trace-result" })
+    const { resolved } = this.trace
+
+    if (!resolved) {
+      resultEl.createSpan({
+        text: "No icon: no enabled source matches this file.",
+        cls: "icon-trace-detail",
+      })
+      return
+    }
+
+    resultEl.appendChild(IconElementFactory.createIconElement(resolved))
+    const textEl = resultEl.createDiv({ cls: "icon-trace-result-text" })
+    IconElementFactory.describeIcon(resolved)
+      .split("\n")
+      .forEach(line => textEl.createDiv({ text: line }))
+
+    if (resolved.isFallback) {
+      textEl.createDiv({
+        text: "No source matches this file, so the fallback icon is used.",
+        cls: "icon-trace-detail",
+      })
+    }
+  }
+
+  /**
+   * Renders the outcome of a single source
+   */
+  private renderStep(
+    containerEl: HTMLElement,
+    step: IconTraceStep,
+    index: number
+  ): void {
+    const stepEl = containerEl.createDiv({
+      cls: `icon-trace-step is-${step.status}`,
+    })
+
+    stepEl
+      .createDiv({ cls: "tag-mapping-priority" })
+      .createEl("span", { text: `${index + 1}` })
+    stepEl.createSpan({
+      text: step.name,
+      cls: "icon-trace-source",
+    })
+    stepEl.createSpan({
+      text: STATUS_LABELS[step.status],
+      cls: "icon-trace-status",
+    })
+
+    const detailEl = stepEl.createDiv({ cls: "icon-trace-detail" })
+    if (step.candidate) {
+      detailEl.appendChild(IconElementFactory.createIconElement(step.candidate))
+      detailEl.createSpan({
+        text: IconElementFactory.describeIcon(step.candidate),
+      })
+    } else if (step.detail) {
+      detailEl.setText(step.detail)
+    }
+  }
+
+  /**
+   * Closes the modal
+   */
+  onClose(): void {
+    this.contentEl.empty()
+  }
+}
@@ -0,0 +1,411 @@
+/**
+ * PropertyMappingModal.ts
+ *
+ * This file provides a modal interface for managing property-to-icon mappings.
+ * Each mapping compares a frontmatter property with a value (e.g. status = done,
+ * priority ≥ 3) and assigns an icon to matching files. Mappings are checked in
+ * priority order and can be reordered, edited inline, and deleted. The modal
+ * shares its layout and styling with the TagMappingModal.
+ */
+
+import { App, Modal, setIcon } from "obsidian"
+import { toCssColor } from "./IconColor"
+import { IconElementFactory } from "./IconElementFactory"
+import SimpleIconsPlugin from "./main"
+import { operatorTakesValue, PROPERTY_OPERATOR_LABELS } from "./matchers"
+import { PropertyMapping, PropertyOperator } from "./types"
+
+/**
+ * Modal for managing property-to-icon mappings with priority ordering
+ *
+ * Provides a dedicated interface for managing property mappings with:
+ * - Inline editing of property, operator, value, icon, and color
+ * - Suggestions for property names and values found in the vault
+ * - Reordering with move up/down buttons
+ * - Auto-save on every change
+ */
+export class PropertyMappingModal extends Modal {
+  private plugin: SimpleIconsPlugin
+  private mappings: PropertyMapping[]
+  private savedIndicatorTimeout: number | null = null
+  private vaultProperties: Map<string, Set<string>> = new Map()
+
+  // UI elements
+  private statusBar: HTMLElement
+  private mappingsContainer: HTMLElement
+
+  constructor(app: App, plugin: SimpleIconsPlugin) {
+    super(app)
+    this.plugin = plugin
+    // Create a copy of mappings to work with
+    this.mappings = plugin.settings.propertyMappings.map(m => ({ ...m }))
+    this.loadVaultProperties()
+  }
+
+  /**
+   * Loads all frontmatter property names and their scalar values from the vault
+   */
+  private loadVaultProperties(): void {
+    const properties = new Map<string, Set<string>>()
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter
+      if (!frontmatter) continue
+
+      for (const [key, value] of Object.entries(frontmatter)) {
+        if (key === "position") continue
+        const values = properties.get(key) ?? new Set<string>()
+        const entries = Array.isArray(value) ? value : [value]
+        for (const entry of entries) {
+          if (["string", "number", "boolean"].includes(typeof entry)) {
+            values.add(String(entry))
+          }
+        }
+        properties.set(key, values)
+      }
+    }
+
+    this.vaultProperties = properties
+  }
+
+  /**
+   * Opens the modal and sets up the UI
+   */
+  onOpen(): void {
+    this.contentEl.empty()
+    this.contentEl.addClass("tag-mapping-modal", "property-mapping-modal")
+
+    // Header
+    const header = this.contentEl.createDiv({ cls: "tag-mapping-modal-header" })
+    header.createEl("h2", { text: "Property Mappings" })
+    header.createEl("p", {
+      text: "Property mappings are checked in priority order. The first mapping whose condition matches a file's frontmatter provides the icon. Values are compared case-insensitively, and list properties match if any entry matches.",
+      cls: "tag-mapping-explanation",
+    })
+
+    // Toolbar
+    const toolbar = this.contentEl.createDiv({ cls: "tag-mapping-toolbar" })
+    const addButton = toolbar.createEl("button", {
+      text: "Add new",
+      cls: "mod-cta",
+    })
+    setIcon(addButton, "plus")
+    addButton.addEventListener("click", () => this.addNewMapping())
+
+    // Shared suggestion list for property names
+    const propertyList = this.contentEl.createEl("datalist", {
+      attr: { id: "property-mapping-properties" },
+    })
+    Array.from(this.vaultProperties.keys())
+      .sort()
+      .forEach(name => propertyList.createEl("option", { value: name }))
+
+    // Main content area
+    this.mappingsContainer = this.contentEl.createDiv({
+      cls: "tag-mapping-mappings-container",
+    })
+
+    // Footer
+    const footer = this.contentEl.createDiv({ cls: "tag-mapping-modal-footer" })
+    this.statusBar = footer.createDiv({ cls: "tag-mapping-status-bar" })
+    this.updateStatusBar()
+
+    const closeButton = footer.createEl("button", {
+      text: "Close",
+      cls: "mod-cta",
+    })
+    closeButton.addEventListener("click", () => this.close())
+
+    this.renderMappings()
+
+    this.scope.register(["Ctrl", "Meta"], "n", e => {
+      e.preventDefault()
+      this.addNewMapping()
+    })
+  }
+
+  /**
+   * Renders the mappings list
+   */
+  private renderMappings(): void {
+    this.mappingsContainer.empty()
+
+    if (this.mappings.length === 0) {
+      const emptyState = this.mappingsContainer.createDiv({
+        cls: "tag-mapping-empty-state",
+      })
+      emptyState.createEl("p", { text: "No property mappings yet." })
+      emptyState.createEl("p", {
+        text: "Click 'Add new' to get started.",
+        cls: "tag-mapping-empty-hint",
+      })
+
+      const example = emptyState.createDiv({ cls: "tag-mapping-example" })
+      example.createEl("span", { text: "status = done" })
+      example.createEl("span", { text: "→" })
+      example.createEl("span", { text: "check-circle" })
+      setIcon(example.createSpan(), "check-circle")
+      return
+    }
+
+    this.mappings.forEach((mapping, index) => {
+      this.mappingsContainer.appendChild(this.createMappingRow(mapping, index))
+    })
+  }
+
+  /**
+   * Creates a single mapping row element with always-editable inputs
+   */
+  private createMappingRow(
+    mapping: PropertyMapping,
+    index: number
+  ): HTMLElement {
+    const rowEl = createDiv({ cls: "tag-mapping-row property-mapping-row" })
+
+    // Priority indicator
+    const priorityEl = rowEl.createDiv({ cls: "tag-mapping-priority" })
+    priorityEl.createEl("span", { text: `${index + 1}` })
+
+    // Property name input
+    const propertyInput = rowEl.createEl("input", {
+      type: "text",
+      value: mapping.property,
+      placeholder: "property",
+      cls: "tag-mapping-tag-input property-mapping-property-input",
+      attr: { list: "property-mapping-properties" },
+    })
+
+    // Operator select
+    const operatorSelect = rowEl.createEl("select", {
+      cls: "dropdown property-mapping-operator",
+    })
+    for (const [operator, label] of Object.entries(PROPERTY_OPERATOR_LABELS)) {
+      operatorSelect.createEl("option", { value: operator, text: label })
+    }
+    operatorSelect.value = mapping.operator
+
+    // Value input with suggestions from the vault
+    const valueListId = `property-mapping-values-${index}`
+    const valueList = rowEl.createEl("datalist", { attr: { id: valueListId } })
+    const valueInput = rowEl.createEl("input", {
+      type: "text",
+      value: mapping.value,
+      placeholder: "value",
+      cls: "tag-mapping-tag-input property-mapping-value-input",
+      attr: { list: valueListId },
+    })
+    const updateValueInput = () => {
+      valueInput.disabled = !operatorTakesValue(mapping.operator)
+      valueList.empty()
+      const values = this.vaultProperties.get(mapping.property.trim())
+      Array.from(values ?? [])
+        .sort()
+        .slice(0, 50)
+        .forEach(value => valueList.createEl("option", { value }))
+    }
+    updateValueInput()
+
+    propertyInput.addEventListener("input", () => {
+      mapping.property = propertyInput.value.trim()
+      updateValueInput()
+      this.autoSave()
+    })
+    operatorSelect.addEventListener("change", () => {
+      mapping.operator = operatorSelect.value as PropertyOperator
+      updateValueInput()
+      this.autoSave()
+    })
+    valueInput.addEventListener("input", () => {
+      mapping.value = valueInput.value.trim()
+      this.autoSave()
+    })
+
+    // Arrow separator
+    rowEl.createEl("span", { text: "→", cls: "tag-mapping-arrow" })
+
+    // Icon and color inputs
+    const iconInput = rowEl.createEl("input", {
+      type: "text",
+      value: mapping.icon,
+      placeholder: "icon-name",
+      cls: "tag-mapping-icon-input property-mapping-icon-input",
+    })
+    const colorInput = rowEl.createEl("input", {
+      type: "text",
+      value: mapping.color ?? "",
+      placeholder: "color",
+      cls: "tag-mapping-color-input property-mapping-color-input",
+      attr: { title: "Hex color, CSS variable, or theme color (e.g. blue)" },
+    })
+
+    // Icon preview
+    const previewEl = rowEl.createDiv({ cls: "tag-mapping-icon-preview" })
+    this.updateIconPreviewElement(previewEl, mapping)
+
+    iconInput.addEventListener("input", () => {
+      mapping.icon = iconInput.value.trim()
+      this.updateIconPreviewElement(previewEl, mapping)
+      this.autoSave()
+    })
+    colorInput.addEventListener("input", () => {
+      const color = colorInput.value.trim()
+      if (color) {
+        mapping.color = color
+      } else {
+        delete mapping.color
+      }
+      this.updateIconPreviewElement(previewEl, mapping)
+      this.autoSave()
+    })
+
+    // Action buttons
+    const actionsEl = rowEl.createDiv({ cls: "tag-mapping-actions" })
+    this.createActionButton(actionsEl, "arrow-up", "Move up", () =>
+      this.moveMapping(index, index - 1)
+    )
+    this.createActionButton(actionsEl, "arrow-down", "Move down", () =>
+      this.moveMapping(index, index + 1)
+    )
+    this.createActionButton(
+      actionsEl,
+      "trash",
+      "Delete",
+      () => this.deleteMapping(index),
+      "tag-mapping-delete-btn"
+    )
+
+    return rowEl
+  }
+
+  /**
+   * Creates a keyboard-accessible action button
+   */
+  private createActionButton(
+    containerEl: HTMLElement,
+    icon: string,
+    label: string,
+    onClick: () => void,
+    cls = ""
+  ): void {
+    const button = containerEl.createDiv({
+      cls: `tag-mapping-action-btn ${cls}`.trim(),
+      attr: { "aria-label": label, role: "button", tabindex: "0" },
+    })
+    setIcon(button, icon)
+    button.addEventListener("click", onClick)
+    button.addEventListener("keydown", e => {
+      if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault()
+        onClick()
+      }
+    })
+  }
+
+  /**
+   * Updates the icon preview element for a mapping
+   */
+  private updateIconPreviewElement(
+    element: HTMLElement,
+    mapping: PropertyMapping
+  ): void {
+    element.empty()
+
+    const cssColor = toCssColor(mapping.color)
+    element.toggleClass("has-icon-color", cssColor !== null)
+    if (cssColor) {
+      element.style.setProperty("--simple-icons-color", cssColor)
+    } else {
+      element.style.removeProperty("--simple-icons-color")
+    }
+
+    if (mapping.icon) {
+      IconElementFactory.setIconContent(element, mapping.icon)
+      element.setAttribute("title", mapping.icon)
+    } else {
+      element.createEl("span", { text: "—", cls: "no-icon" })
+    }
+  }
+
+  /**
+   * Adds a new mapping at the top (highest priority)
+   */
+  private addNewMapping(): void {
+    this.mappings.unshift({
+      property: "",
+      operator: "equals",
+      value: "",
+      icon: "",
+    })
+    this.autoSave()
+    this.renderMappings()
+
+    const firstInput = this.mappingsContainer.querySelector("input")
+    firstInput?.focus()
+  }
+
+  /**
+   * Deletes a mapping
+   */
+  private deleteMapping(index: number): void {
+    this.mappings.splice(index, 1)
+    this.autoSave()
+    this.renderMappings()
+  }
+
+  /**
+   * Moves a mapping to a new position in the priority order
+   */
+  private moveMapping(fromIndex: number, toIndex: number): void {
+    if (toIndex < 0 || toIndex >= this.mappings.length) return
+
+    const [mapping] = this.mappings.splice(fromIndex, 1)
+    this.mappings.splice(toIndex, 0, mapping)
+    this.autoSave()
+    this.renderMappings()
+  }
+
+  /**
+   * Auto-saves changes to plugin settings
+   */
+  private async autoSave(): Promise<void> {
+    this.plugin.settings.propertyMappings = this.mappings.map(m => ({ ...m }))
+    await this.plugin.saveSettings()
+    this.plugin.refreshAllIcons()
+    this.showSavedIndicator()
+  }
+
+  /**
+   * Shows a brief "Saved" indicator
+   */
+  private showSavedIndicator(): void {
+    if (this.savedIndicatorTimeout) {
+      clearTimeout(this.savedIndicatorTimeout)
+    }
+
+    this.statusBar.addClass("saved")
+    this.statusBar.textContent = "✓ Saved"
+
+    this.savedIndicatorTimeout = window.setTimeout(() => {
+      this.statusBar.removeClass("saved")
+      this.updateStatusBar()
+    }, 2000)
+  }
+
+  /**
+   * Updates the status bar
+   */
+  private updateStatusBar(): void {
+    const total = this.mappings.length
+    this.statusBar.textContent = `${total} mapping${total !== 1 ? "s" : ""}`
+  }
+
+  /**
+   * Closes the modal
+   */
+  onClose(): void {
+    if (this.savedIndicatorTimeout) {
+      clearTimeout(this.savedIndicatorTimeout)
+    }
+    this.contentEl.empty()
+  }
+}
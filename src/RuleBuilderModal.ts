@@ -0,0 +1,360 @@
+/**
+ * RuleBuilderModal.ts
+ *
+ * This file provides the modal interface for managing compound icon rules.
+ * Each rule combines conditions over tags, folder paths, frontmatter values,
+ * file extensions, and file names with AND / OR / NOT, and assigns an icon to
+ * matching files (e.g. "in work/ AND tagged #urgent" → siren). Rules are
+ * evaluated in the order shown, and the first matching rule wins. The same
+ * modal edits the badge rules, whose icon is overlaid on the file's icon
+ * (e.g. "status = done" → check).
+ */
+
+import { App, Modal, setIcon, ToggleComponent } from "obsidian"
+import { toCssColor } from "./IconColor"
+import { IconElementFactory } from "./IconElementFactory"
+import SimpleIconsPlugin from "./main"
+import { RuleConditionEditor } from "./RuleConditionEditor"
+import { IconRule, RuleSet } from "./types"
+
+/**
+ * Modal for building and ordering compound icon rules
+ *
+ * Provides a dedicated interface for managing rules with:
+ * - A condition tree editor per rule (groups, leaf conditions, negation)
+ * - Inline editing of name, icon, and color
+ * - Enable/disable toggles to keep rules without evaluating them
+ * - Reordering with move up/down buttons
+ * - Auto-save on every change
+ */
+export class RuleBuilderModal extends Modal {
+  private plugin: SimpleIconsPlugin
+  private ruleSet: RuleSet
+  private rules: IconRule[]
+  private savedIndicatorTimeout: number | null = null
+
+  // UI elements
+  private statusBar: HTMLElement
+  private rulesContainer: HTMLElement
+
+  /**
+   * @param app - The Obsidian App instance
+   * @param plugin - The plugin whose settings are edited
+   * @param ruleSet - Which rules to edit: the icon rules or the badge rules
+   */
+  constructor(app: App, plugin: SimpleIconsPlugin, ruleSet: RuleSet = "rules") {
+    super(app)
+    this.plugin = plugin
+    this.ruleSet = ruleSet
+    // Work on a deep copy so edits only apply through autoSave
+    this.rules = JSON.parse(JSON.stringify(plugin.settings[ruleSet]))
+  }
+
+  /**
+   * Opens the modal and sets up the UI
+   */
+  onOpen(): void {
+    this.contentEl.empty()
+    this.contentEl.addClass("tag-mapping-modal", "rule-builder-modal")
+
+    // Header
+    const header = this.contentEl.createDiv({ cls: "tag-mapping-modal-header" })
+    const isBadges = this.ruleSet === "badgeRules"
+    header.createEl("h2", { text: isBadges ? "Badge Rules" : "Icon Rules" })
+    header.createEl("p", {
+      text: isBadges
+        ? "Badge rules are checked from top to bottom, independently of the icon rules. The first matching rule provides a small badge shown on the corner of the file's icon."
+        : "Rules combine conditions with AND / OR / NOT and are checked from top to bottom. The first matching rule provides the icon.",
+      cls: "tag-mapping-explanation",
+    })
+
+    // Toolbar
+    const toolbar = this.contentEl.createDiv({ cls: "tag-mapping-toolbar" })
+    const addButton = toolbar.createEl("button", {
+      text: "Add rule",
+      cls: "mod-cta",
+    })
+    setIcon(addButton, "plus")
+    addButton.addEventListener("click", () => this.addNewRule())
+
+    // Main content area
+    this.rulesContainer = this.contentEl.createDiv({
+      cls: "tag-mapping-mappings-container rule-builder-rules",
+    })
+
+    // Footer
+    const footer = this.contentEl.createDiv({ cls: "tag-mapping-modal-footer" })
+    this.statusBar = footer.createDiv({ cls: "tag-mapping-status-bar" })
+    this.updateStatusBar()
+
+    const closeButton = footer.createEl("button", {
+      text: "Close",
+      cls: "mod-cta",
+    })
+    closeButton.addEventListener("click", () => this.close())
+
+    this.renderRules()
+  }
+
+  /**
+   * Renders the list of rules
+   */
+  private renderRules(): void {
+    this.rulesContainer.empty()
+
+    if (this.rules.length === 0) {
+      const emptyState = this.rulesContainer.createDiv({
+        cls: "tag-mapping-empty-state",
+      })
+      emptyState.createEl("p", { text: "No rules yet." })
+      emptyState.createEl("p", {
+        text: "Click 'Add rule' to combine tags, folders, and properties into one condition.",
+        cls: "tag-mapping-empty-hint",
+      })
+
+      const [condition, icon] =
+        this.ruleSet === "badgeRules"
+          ? ["status = done", "check"]
+          : ["work/ AND #urgent", "siren"]
+      const example = emptyState.createDiv({ cls: "tag-mapping-example" })
+      example.createEl("span", { text: condition })
+      example.createEl("span", { text: "→" })
+      example.createEl("span", { text: icon })
+      setIcon(example.createSpan(), icon)
+      return
+    }
+
+    this.rules.forEach((rule, index) => this.renderRule(rule, index))
+  }
+
+  /**
+   * Renders a single rule card with its header and condition editor
+   */
+  private renderRule(rule: IconRule, index: number): void {
+    const ruleEl = this.rulesContainer.createDiv({ cls: "rule-builder-rule" })
+    ruleEl.toggleClass("is-disabled", rule.disabled === true)
+
+    const headerEl = ruleEl.createDiv({ cls: "rule-builder-rule-header" })
+
+    // Priority indicator
+    headerEl
+      .createDiv({ cls: "tag-mapping-priority" })
+      .createEl("span", { text: `${index + 1}` })
+
+    // Enabled toggle
+    new ToggleComponent(headerEl)
+      .setValue(!rule.disabled)
+      .setTooltip("Enable rule")
+      .onChange(value => {
+        if (value) {
+          delete rule.disabled
+        } else {
+          rule.disabled = true
+        }
+        ruleEl.toggleClass("is-disabled", rule.disabled === true)
+        this.autoSave()
+      })
+
+    // Name, icon, and color inputs
+    const nameInput = headerEl.createEl("input", {
+      type: "text",
+      value: rule.name ?? "",
+      placeholder: "Rule name (optional)",
+      cls: "tag-mapping-tag-input rule-builder-name-input",
+    })
+    nameInput.addEventListener("input", () => {
+      const name = nameInput.value.trim()
+      if (name) {
+        rule.name = name
+      } else {
+        delete rule.name
+      }
+      this.autoSave()
+    })
+
+    headerEl.createEl("span", { text: "→", cls: "tag-mapping-arrow" })
+
+    const iconInput = headerEl.createEl("input", {
+      type: "text",
+      value: rule.icon,
+      placeholder: "icon-name",
+      cls: "tag-mapping-icon-input rule-builder-icon-input",
+    })
+    const colorInput = headerEl.createEl("input", {
+      type: "text",
+      value: rule.color ?? "",
+      placeholder: "color",
+      cls: "tag-mapping-color-input rule-builder-color-input",
+      attr: { title: "Hex color, CSS variable, or theme color (e.g. blue)" },
+    })
+    const previewEl = headerEl.createDiv({ cls: "tag-mapping-icon-preview" })
+    this.updateIconPreviewElement(previewEl, rule)
+
+    iconInput.addEventListener("input", () => {
+      rule.icon = iconInput.value.trim()
+      this.updateIconPreviewElement(previewEl, rule)
+      this.autoSave()
+    })
+    colorInput.addEventListener("input", () => {
+      const color = colorInput.value.trim()
+      if (color) {
+        rule.color = color
+      } else {
+        delete rule.color
+      }
+      this.updateIconPreviewElement(previewEl, rule)
+      this.autoSave()
+    })
+
+    // Action buttons
+    const actionsEl = headerEl.createDiv({ cls: "tag-mapping-actions" })
+    this.createActionButton(actionsEl, "arrow-up", "Move up", () =>
+      this.moveRule(index, index - 1)
+    )
+    this.createActionButton(actionsEl, "arrow-down", "Move down", () =>
+      this.moveRule(index, index + 1)
+    )
+    this.createActionButton(
+      actionsEl,
+      "trash",
+      "Delete",
+      () => this.deleteRule(index),
+      "tag-mapping-delete-btn"
+    )
+
+    // Condition tree
+    const conditionsEl = ruleEl.createDiv({ cls: "rule-builder-conditions" })
+    new RuleConditionEditor(conditionsEl, rule.condition, () =>
+      this.autoSave()
+    ).render()
+  }
+
+  /**
+   * Creates a keyboard-accessible action button
+   */
+  private createActionButton(
+    containerEl: HTMLElement,
+    icon: string,
+    label: string,
+    onClick: () => void,
+    cls = ""
+  ): void {
+    const button = containerEl.createDiv({
+      cls: `tag-mapping-action-btn ${cls}`.trim(),
+      attr: { "aria-label": label, role: "button", tabindex: "0" },
+    })
+    setIcon(button, icon)
+    button.addEventListener("click", onClick)
+    button.addEventListener("keydown", e => {
+      if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault()
+        onClick()
+      }
+    })
+  }
+
+  /**
+   * Updates the icon preview element for a rule
+   */
+  private updateIconPreviewElement(element: HTMLElement, rule: IconRule): void {
+    element.empty()
+
+    const cssColor = toCssColor(rule.color)
+    element.toggleClass("has-icon-color", cssColor !== null)
+    if (cssColor) {
+      element.style.setProperty("--simple-icons-color", cssColor)
+    } else {
+      element.style.removeProperty("--simple-icons-color")
+    }
+
+    if (rule.icon) {
+      IconElementFactory.setIconContent(element, rule.icon)
+      element.setAttribute("title", rule.icon)
+    } else {
+      element.createEl("span", { text: "—", cls: "no-icon" })
+    }
+  }
+
+  /**
+   * Adds a new rule at the top (highest priority)
+   */
+  private addNewRule(): void {
+    this.rules.unshift({
+      condition: { type: "group", operator: "all", conditions: [] },
+      icon: "",
+    })
+    this.autoSave()
+    this.renderRules()
+
+    const firstInput = this.rulesContainer.querySelector("input[type=text]")
+    if (firstInput instanceof HTMLInputElement) {
+      firstInput.focus()
+    }
+  }
+
+  /**
+   * Deletes a rule
+   */
+  private deleteRule(index: number): void {
+    this.rules.splice(index, 1)
+    this.autoSave()
+    this.renderRules()
+  }
+
+  /**
+   * Moves a rule to a new position in the evaluation order
+   */
+  private moveRule(fromIndex: number, toIndex: number): void {
+    if (toIndex < 0 || toIndex >= this.rules.length) return
+
+    const [rule] = this.rules.splice(fromIndex, 1)
+    this.rules.splice(toIndex, 0, rule)
+    this.autoSave()
+    this.renderRules()
+  }
+
+  /**
+   * Auto-saves changes to plugin settings
+   */
+  private async autoSave(): Promise<void> {
+    this.plugin.settings[this.ruleSet] = JSON.parse(JSON.stringify(this.rules))
+    await this.plugin.saveSettings()
+    this.plugin.refreshAllIcons()
+    this.showSavedIndicator()
+  }
+
+  /**
+   * Shows a brief "Saved" indicator
+   */
+  private showSavedIndicator(): void {
+    if (this.savedIndicatorTimeout) {
+      clearTimeout(this.savedIndicatorTimeout)
+    }
+
+    this.statusBar.addClass("saved")
+    this.statusBar.textContent = "✓ Saved"
+
+    this.savedIndicatorTimeout = window.setTimeout(() => {
+      this.statusBar.removeClass("saved")
+      this.updateStatusBar()
+    }, 2000)
+  }
+
+  /**
+   * Updates the status bar
+   */
+  private updateStatusBar(): void {
+    const total = this.rules.length
+    this.statusBar.textContent = `${total} rule${total !== 1 ? "s" : ""}`
+  }
+
+  /**
+   * Closes the modal
+   */
+  onClose(): void {
+    if (this.savedIndicatorTimeout) {
+      clearTimeout(this.savedIndicatorTimeout)
+    }
+    this.contentEl.empty()
+  }
+}
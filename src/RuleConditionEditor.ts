@@ -0,0 +1,356 @@
+/**
+ * RuleConditionEditor.ts
+ *
+ * This file provides the editor used by the RuleBuilderModal to edit the
+ * condition tree of a compound icon rule. Conditions are shown as nested
+ * groups ("All of" / "Any of") containing leaf conditions over tags, paths,
+ * properties, extensions, and file names. Every condition can be negated.
+ */
+
+import { setIcon } from "obsidian"
+import { PROPERTY_OPERATOR_LABELS, operatorTakesValue } from "./matchers"
+import {
+  GroupCondition,
+  PropertyOperator,
+  RuleCondition,
+  RuleConditionType,
+} from "./types"
+
+/**
+ * Display labels for leaf condition types, in the order shown in the UI
+ */
+const CONDITION_TYPE_LABELS: Record<
+  Exclude<RuleConditionType, "group">,
+  string
+> = {
+  tag: "Tag",
+  path: "Folder / path",
+  property: "Property",
+  extension: "Extension",
+  name: "File name",
+}
+
+/**
+ * Creates a new condition of the given type with empty values
+ *
+ * @param type - The condition type
+ * @returns A new condition
+ */
+export function createDefaultCondition(type: RuleConditionType): RuleCondition {
+  switch (type) {
+    case "group":
+      return { type: "group", operator: "all", conditions: [] }
+    case "tag":
+      return { type: "tag", tag: "" }
+    case "path":
+      return { type: "path", path: "" }
+    case "property":
+      return { type: "property", property: "", operator: "equals", value: "" }
+    case "extension":
+      return { type: "extension", extension: "" }
+    case "name":
+      return { type: "name", name: "" }
+  }
+}
+
+/**
+ * Editor for a rule's condition tree
+ *
+ * Renders the tree into a container and re-renders it after structural
+ * changes (adding, removing, or retyping conditions). Value edits only invoke
+ * the change callback so that inputs keep their focus while typing.
+ */
+export class RuleConditionEditor {
+  private containerEl: HTMLElement
+  private root: GroupCondition
+  private onChange: () => void
+
+  /**
+   * Creates a new condition editor
+   *
+   * @param containerEl - The element to render the editor into
+   * @param root - The root group condition of the rule (edited in place)
+   * @param onChange - Called whenever the condition tree changes
+   */
+  constructor(
+    containerEl: HTMLElement,
+    root: GroupCondition,
+    onChange: () => void
+  ) {
+    this.containerEl = containerEl
+    this.root = root
+    this.onChange = onChange
+  }
+
+  /**
+   * Renders the whole condition tree
+   */
+  render(): void {
+    this.containerEl.empty()
+    this.renderGroup(this.containerEl, this.root, null)
+  }
+
+  /**
+   * Applies a structural change, re-rendering the tree
+   */
+  private commit(): void {
+    this.render()
+    this.onChange()
+  }
+
+  /**
+   * Renders a group condition and its children
+   *
+   * @param containerEl - The element to render into
+   * @param group - The group to render
+   * @param parent - The parent group, or null for the root
+   */
+  private renderGroup(
+    containerEl: HTMLElement,
+    group: GroupCondition,
+    parent: GroupCondition | null
+  ): void {
+    const groupEl = containerEl.createDiv({ cls: "rule-condition-group" })
+    const headerEl = groupEl.createDiv({ cls: "rule-condition-group-header" })
+
+    this.renderNegateToggle(headerEl, group)
+
+    const operatorSelect = headerEl.createEl("select", { cls: "dropdown" })
+    operatorSelect.createEl("option", { value: "all", text: "All of (AND)" })
+    operatorSelect.createEl("option", { value: "any", text: "Any of (OR)" })
+    operatorSelect.value = group.operator
+    operatorSelect.addEventListener("change", () => {
+      group.operator = operatorSelect.value as GroupCondition["operator"]
+      this.onChange()
+    })
+
+    const addConditionButton = headerEl.createEl("button", {
+      text: "Condition",
+      cls: "rule-condition-add-btn",
+    })
+    setIcon(addConditionButton.createSpan({ prepend: true }), "plus")
+    addConditionButton.addEventListener("click", () => {
+      group.conditions.push(createDefaultCondition("tag"))
+      this.commit()
+    })
+
+    const addGroupButton = headerEl.createEl("button", {
+      text: "Group",
+      cls: "rule-condition-add-btn",
+    })
+    setIcon(addGroupButton.createSpan({ prepend: true }), "plus")
+    addGroupButton.addEventListener("click", () => {
+      group.conditions.push(createDefaultCondition("group"))
+      this.commit()
+    })
+
+    if (parent) {
+      this.renderRemoveButton(headerEl, group, parent)
+    }
+
+    const childrenEl = groupEl.createDiv({ cls: "rule-condition-children" })
+    if (group.conditions.length === 0) {
+      childrenEl.createDiv({
+        text: "No conditions yet. An empty group never matches.",
+        cls: "rule-condition-empty",
+      })
+    }
+
+    group.conditions.forEach(condition => {
+      if (condition.type === "group") {
+        this.renderGroup(childrenEl, condition, group)
+      } else {
+        this.renderLeaf(childrenEl, condition, group)
+      }
+    })
+  }
+
+  /**
+   * Renders a leaf condition row
+   *
+   * @param containerEl - The element to render into
+   * @param condition - The leaf condition to render
+   * @param parent - The group containing the condition
+   */
+  private renderLeaf(
+    containerEl: HTMLElement,
+    condition: Exclude<RuleCondition, GroupCondition>,
+    parent: GroupCondition
+  ): void {
+    const rowEl = containerEl.createDiv({ cls: "rule-condition-row" })
+
+    this.renderNegateToggle(rowEl, condition)
+
+    const typeSelect = rowEl.createEl("select", { cls: "dropdown" })
+    for (const [type, label] of Object.entries(CONDITION_TYPE_LABELS)) {
+      typeSelect.createEl("option", { value: type, text: label })
+    }
+    typeSelect.value = condition.type
+    typeSelect.addEventListener("change", () => {
+      const replacement = createDefaultCondition(
+        typeSelect.value as RuleConditionType
+      )
+      replacement.negate = condition.negate
+      parent.conditions[parent.conditions.indexOf(condition)] = replacement
+      this.commit()
+    })
+
+    switch (condition.type) {
+      case "tag":
+        this.renderTextInput(rowEl, condition.tag, "tag-name", value => {
+          condition.tag = value
+        })
+        this.renderFlagToggle(rowEl, "equal", "Exact tag only", {
+          get: () => condition.exactMatch === true,
+          set: value => (condition.exactMatch = value || undefined),
+        })
+        break
+      case "path":
+        this.renderTextInput(
+          rowEl,
+          condition.path,
+          "folder/path or glob",
+          value => {
+            condition.path = value
+          }
+        )
+        this.renderFlagToggle(rowEl, "regex", "Regular expression", {
+          get: () => condition.regex === true,
+          set: value => (condition.regex = value || undefined),
+        })
+        break
+      case "property": {
+        this.renderTextInput(rowEl, condition.property, "property", value => {
+          condition.property = value
+        })
+        const operatorSelect = rowEl.createEl("select", { cls: "dropdown" })
+        for (const [operator, label] of Object.entries(
+          PROPERTY_OPERATOR_LABELS
+        )) {
+          operatorSelect.createEl("option", { value: operator, text: label })
+        }
+        operatorSelect.value = condition.operator
+        const valueInput = this.renderTextInput(
+          rowEl,
+          condition.value,
+          "value",
+          value => {
+            condition.value = value
+          }
+        )
+        valueInput.disabled = !operatorTakesValue(condition.operator)
+        operatorSelect.addEventListener("change", () => {
+          condition.operator = operatorSelect.value as PropertyOperator
+          valueInput.disabled = !operatorTakesValue(condition.operator)
+          this.onChange()
+        })
+        break
+      }
+      case "extension":
+        this.renderTextInput(rowEl, condition.extension, "pdf|png", value => {
+          condition.extension = value
+        })
+        break
+      case "name":
+        this.renderTextInput(rowEl, condition.name, "name or glob", value => {
+          condition.name = value
+        })
+        this.renderFlagToggle(rowEl, "regex", "Regular expression", {
+          get: () => condition.regex === true,
+          set: value => (condition.regex = value || undefined),
+        })
+        break
+    }
+
+    this.renderRemoveButton(rowEl, condition, parent)
+  }
+
+  /**
+   * Renders a text input that updates a condition value as the user types
+   *
+   * @returns The created input element
+   */
+  private renderTextInput(
+    containerEl: HTMLElement,
+    value: string,
+    placeholder: string,
+    update: (value: string) => void
+  ): HTMLInputElement {
+    const input = containerEl.createEl("input", {
+      type: "text",
+      value,
+      placeholder,
+      cls: "rule-condition-input",
+    })
+    input.addEventListener("input", () => {
+      update(input.value.trim())
+      this.onChange()
+    })
+    return input
+  }
+
+  /**
+   * Renders the NOT toggle for a condition
+   */
+  private renderNegateToggle(
+    containerEl: HTMLElement,
+    condition: RuleCondition
+  ): void {
+    const button = containerEl.createEl("button", {
+      text: "NOT",
+      cls: "rule-condition-not-btn",
+      attr: { "aria-label": "Invert this condition" },
+    })
+    button.toggleClass("is-active", condition.negate === true)
+    button.addEventListener("click", () => {
+      if (condition.negate) {
+        delete condition.negate
+      } else {
+        condition.negate = true
+      }
+      button.toggleClass("is-active", condition.negate === true)
+      this.onChange()
+    })
+  }
+
+  /**
+   * Renders an icon toggle for a boolean condition option
+   */
+  private renderFlagToggle(
+    containerEl: HTMLElement,
+    icon: string,
+    label: string,
+    flag: { get: () => boolean; set: (value: boolean) => void }
+  ): void {
+    const button = containerEl.createDiv({
+      cls: "clickable-icon rule-condition-flag",
+      attr: { "aria-label": label, role: "button", tabindex: "0" },
+    })
+    setIcon(button, icon)
+    button.toggleClass("is-active", flag.get())
+    button.addEventListener("click", () => {
+      flag.set(!flag.get())
+      button.toggleClass("is-active", flag.get())
+      this.onChange()
+    })
+  }
+
+  /**
+   * Renders the button removing a condition from its parent group
+   */
+  private renderRemoveButton(
+    containerEl: HTMLElement,
+    condition: RuleCondition,
+    parent: GroupCondition
+  ): void {
+    const button = containerEl.createDiv({
+      cls: "clickable-icon rule-condition-remove",
+      attr: { "aria-label": "Remove condition", role: "button", tabindex: "0" },
+    })
+    setIcon(button, "x")
+    button.addEventListener("click", () => {
+      parent.conditions.splice(parent.conditions.indexOf(condition), 1)
+      this.commit()
+    })
+  }
+}
@@ -3,20 +3,60 @@
  *
  * This file provides the settings UI for the Simple Icons plugin. It allows users to:
  * 1. Toggle rendering locations (wikilinks, file views, file lists)
- * 2. Enable/disable association methods (frontmatter, tags, folders)
- * 3. Configure the frontmatter property name
- * 4. Manage tag-to-icon mappings with priority ordering
- * 5. Manage folder-to-icon mappings
+ * 2. Enable/disable association methods (frontmatter, rules, properties, tags,
+ *    folders, and icon providers registered by other plugins) and reorder
+ *    their priority
+ * 3. Configure the vault folder custom SVG icon packs are loaded from, and
+ *    the frontmatter property names for icons and icon colors
+ * 4. Manage property-to-icon and tag-to-icon mappings with priority ordering
+ * 5. Manage extension-to-icon and folder-to-icon mappings, and icons set
+ *    directly on folders
+ * 6. Configure the fallback icon for unmatched files and where it is shown
+ * 7. Configure icons for links to files that don't exist
+ * 8. Enable badges and open the badge rule builder
  *
  * The settings tab uses Obsidian's Setting API to create a responsive and
  * user-friendly interface for configuring all plugin options.
  */
 
-import { App, PluginSettingTab, Setting, setIcon } from "obsidian"
+import {
+  App,
+  ButtonComponent,
+  PluginSettingTab,
+  Setting,
+  setIcon,
+  TextComponent,
+  ToggleComponent,
+} from "obsidian"
+import { triggerIconRefresh } from "./EditorExtension"
+import { BUILT_IN_ICON_ALIASES } from "./IconAliases"
+import { IconElementFactory } from "./IconElementFactory"
 import SimpleIconsPlugin from "./main"
-import { FolderMapping } from "./types"
+import { BUILT_IN_EXTENSION_MAPPINGS, isValidRegex } from "./matchers"
+import { getIconProperties } from "./providers"
+import {
+  ExtensionMapping,
+  FolderIcon,
+  FolderMapping,
+  IconProvider,
+  IconSource,
+  RenderLocation,
+  SOURCE_ENABLE_SETTINGS,
+  TagMatchMode,
+} from "./types"
+import { PropertyMappingModal } from "./PropertyMappingModal"
+import { RuleBuilderModal } from "./RuleBuilderModal"
 import { TagMappingModal } from "./TagMappingModal"
 
+/**
+ * Labels for the fallback icon location toggles
+ */
+const FALLBACK_LOCATION_LABELS: Record<RenderLocation, string> = {
+  fileLists: "Show in file lists",
+  fileView: "Show in file view",
+  wikilinks: "Show in wikilinks",
+}
+
 /**
  * Settings tab for configuring Simple Icons plugin
  *
@@ -54,8 +94,23 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
     // Rendering Location Toggles
     this.addRenderingLocationSettings(containerEl)
 
+    // Custom Icon Packs
+    this.addIconPackSettings(containerEl)
+
+    // Icon Aliases
+    this.addIconAliasSettings(containerEl)
+
     // Association Methods
     this.addAssociationMethodSettings(containerEl)
+
+    // Fallback Icon
+    this.addFallbackSettings(containerEl)
+
+    // Unresolved Links
+    this.addUnresolvedLinkSettings(containerEl)
+
+    // Badges
+    this.addBadgeSettings(containerEl)
   }
 
   /**
@@ -110,38 +165,409 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
             this.plugin.reloadRenderer()
           })
       )
+
+    new Setting(containerEl)
+      .setName("Render folder icons")
+      .setDesc(
+        "Show icons on folders in the file explorer, from icons set on the folder or folder mappings targeting it"
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.renderFolderIcons)
+          .onChange(async value => {
+            this.plugin.settings.renderFolderIcons = value
+            await this.plugin.saveSettings()
+            this.plugin.iconRenderer.updateFileListIcons()
+          })
+      )
+
+    new Setting(containerEl)
+      .setName("Show icon tooltips")
+      .setDesc(
+        "Hover an icon to see which setting provided it, e.g. 'Tag mapping 2: #project'"
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.showIconTooltips)
+          .onChange(async value => {
+            this.plugin.settings.showIconTooltips = value
+            await this.plugin.saveSettings()
+            this.plugin.iconRenderer.updateAllIcons()
+            triggerIconRefresh(this.app)
+          })
+      )
+  }
+
+  /**
+   * Adds settings for custom SVG icon packs
+   *
+   * Creates a text input for the icon pack folder and a button to reload the
+   * packs, showing how many custom icons are registered.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addIconPackSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Custom Icons" })
+    containerEl.createEl("p", {
+      text: "Use your own SVG files as icons. Subfolders are packs: icons/brands/logo.svg becomes brands:logo, and SVG files directly in the folder become custom:name.",
+      cls: "setting-item-description",
+    })
+
+    const describe = () => {
+      const count = this.plugin.iconPacks.getIconIds().length
+      return this.plugin.settings.iconPackFolder.trim()
+        ? `${count} custom icon${count !== 1 ? "s" : ""} loaded`
+        : "Vault folder containing SVG icons (leave empty to disable)"
+    }
+
+    const setting = new Setting(containerEl).setName("Icon pack folder")
+    setting
+      .setDesc(describe())
+      .addText(text =>
+        text
+          .setPlaceholder("icons")
+          .setValue(this.plugin.settings.iconPackFolder)
+          .onChange(async value => {
+            this.plugin.settings.iconPackFolder = value.trim()
+            await this.plugin.saveSettings()
+            await this.plugin.reloadIconPacks()
+            setting.setDesc(describe())
+          })
+      )
+      .addExtraButton(button =>
+        button
+          .setIcon("refresh-cw")
+          .setTooltip("Reload icon packs")
+          .onClick(async () => {
+            await this.plugin.reloadIconPacks()
+            setting.setDesc(describe())
+          })
+      )
+  }
+
+  /**
+   * Adds settings for icon aliases
+   *
+   * Creates a toggle for the built-in Lucide renames, a button to add an
+   * alias, and a row per alias with text inputs for the alias and the icon
+   * name it stands for.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addIconAliasSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Icon Aliases" })
+    containerEl.createEl("p", {
+      text: "Alternative names for icons, accepted anywhere an icon name is (e.g. todo → list-checks). Run 'Simple Icons: Replace icon aliases in frontmatter' to write the icon names into your notes instead.",
+      cls: "setting-item-description",
+    })
+
+    new Setting(containerEl)
+      .setName("Use built-in Lucide renames")
+      .setDesc(
+        `Keep showing icons that Lucide renamed under their old names, e.g. ${Object.entries(
+          BUILT_IN_ICON_ALIASES
+        )
+          .slice(0, 3)
+          .map(([alias, icon]) => `${alias} → ${icon}`)
+          .join(", ")} (${Object.keys(BUILT_IN_ICON_ALIASES).length} names)`
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.useBuiltInIconAliases)
+          .onChange(async value => {
+            this.plugin.settings.useBuiltInIconAliases = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+          })
+      )
+
+    new Setting(containerEl)
+      .setName("Add icon alias")
+      .setDesc("Create a new alias for an icon name")
+      .addButton(button =>
+        button.setButtonText("Add alias").onClick(() => {
+          this.plugin.settings.iconAliases.push({ alias: "", icon: "" })
+          this.plugin.saveSettings()
+          this.display()
+        })
+      )
+
+    const aliases = this.plugin.settings.iconAliases
+    aliases.forEach((alias, index) => {
+      const setting = new Setting(containerEl)
+        .addText(text =>
+          text
+            .setPlaceholder("alias")
+            .setValue(alias.alias)
+            .onChange(async value => {
+              aliases[index].alias = value
+              await this.plugin.saveSettings()
+              this.plugin.refreshAllIcons()
+            })
+        )
+        .addText(text => {
+          text
+            .setPlaceholder("icon-name")
+            .setValue(alias.icon)
+            .onChange(async value => {
+              aliases[index].icon = value
+              await this.plugin.saveSettings()
+              this.plugin.refreshAllIcons()
+            })
+          text.inputEl.addClass("icon-name-input")
+        })
+        .addExtraButton(button =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete")
+            .onClick(async () => {
+              aliases.splice(index, 1)
+              await this.plugin.saveSettings()
+              this.plugin.refreshAllIcons()
+              this.display()
+            })
+        )
+
+      setting.infoEl.remove()
+    })
   }
 
   /**
    * Adds settings for configuring icon association methods
    *
-   * Creates sections for each association method (frontmatter, tags, folders)
+   * Creates sections for each association method (frontmatter, rules,
+   * properties, tags, extensions, folder notes, folders) in the configured
+   * priority order,
    * with enable/disable toggles and method-specific configuration options.
    *
    * @param containerEl - The container element to add settings to
    */
   private addAssociationMethodSettings(containerEl: HTMLElement): void {
+    const order = this.plugin.iconResolver.getProviders()
+
     containerEl.createEl("h3", { text: "Icon Association Methods" })
     containerEl.createEl("p", {
-      text: "Configure how icons are associated with files. Priority order: Frontmatter > Tags > Folders",
+      text: `Configure how icons are associated with files. Priority order: ${order
+        .map(provider => provider.name)
+        .join(" > ")}`,
+      cls: "setting-item-description",
+    })
+
+    // Priority order
+    this.addSourceOrderSettings(containerEl, order)
+
+    // Per-method settings, shown in priority order (registered providers are
+    // configured in their own plugin)
+    const sections: Record<IconSource, (containerEl: HTMLElement) => void> = {
+      frontmatter: el => this.addFrontmatterSettings(el),
+      inlineFields: el => this.addInlineFieldSettings(el),
+      rules: el => this.addRuleSettings(el),
+      properties: el => this.addPropertySettings(el),
+      tags: el => this.addTagSettings(el),
+      extensions: el => this.addExtensionSettings(el),
+      folderNotes: el => this.addFolderNoteSettings(el),
+      folders: el => this.addFolderSettings(el),
+    }
+    for (const provider of order) {
+      sections[provider.id as IconSource]?.(containerEl)
+    }
+  }
+
+  /**
+   * Adds the list for reordering and enabling icon providers
+   *
+   * Each provider is shown as a row that can be dragged by its handle or
+   * moved with the arrow buttons, with a toggle to enable it. Disabled
+   * providers stay in the list so that their position is kept when they are
+   * enabled again. Providers registered by other plugins are listed too.
+   *
+   * @param containerEl - The container element to add settings to
+   * @param order - The current provider order
+   */
+  private addSourceOrderSettings(
+    containerEl: HTMLElement,
+    order: IconProvider[]
+  ): void {
+    containerEl.createEl("h4", { text: "Priority Order" })
+    containerEl.createEl("p", {
+      text: "Sources are checked from top to bottom and the first one providing an icon wins. Drag to reorder.",
       cls: "setting-item-description",
     })
 
-    // Frontmatter settings
-    this.addFrontmatterSettings(containerEl)
+    const listEl = containerEl.createDiv({ cls: "source-order-list" })
+    const rowEls: HTMLElement[] = []
+
+    order.forEach((provider, index) => {
+      const enabled = this.plugin.iconResolver.isProviderEnabled(provider.id)
+      const rowEl = listEl.createDiv({ cls: "source-order-row" })
+      rowEl.toggleClass("is-disabled", !enabled)
+      rowEls.push(rowEl)
+
+      const dragHandle = rowEl.createDiv({ cls: "tag-mapping-drag-handle" })
+      dragHandle.setAttribute("title", "Drag to reorder")
+      dragHandle.setText("⋮⋮")
+      dragHandle.addEventListener("mousedown", e =>
+        this.startRowDrag(e, index, listEl, rowEls, toIndex =>
+          this.moveSource(order, index, toIndex)
+        )
+      )
+
+      rowEl
+        .createDiv({ cls: "tag-mapping-priority" })
+        .createEl("span", { text: `${index + 1}` })
+      rowEl.createSpan({
+        text: provider.name,
+        cls: "source-order-label",
+      })
+      if (!(provider.id in SOURCE_ENABLE_SETTINGS)) {
+        rowEl.createSpan({ text: "Plugin", cls: "source-order-status" })
+      }
 
-    // Tag settings
-    this.addTagSettings(containerEl)
+      new ToggleComponent(rowEl)
+        .setValue(enabled)
+        .setTooltip(enabled ? "Disable" : "Enable")
+        .onChange(value => this.setProviderEnabled(provider.id, value))
+
+      const upButton = rowEl.createDiv({
+        cls: "clickable-icon",
+        attr: { "aria-label": "Move up" },
+      })
+      setIcon(upButton, "arrow-up")
+      upButton.addEventListener("click", () =>
+        this.moveSource(order, index, index - 1)
+      )
 
-    // Folder settings
-    this.addFolderSettings(containerEl)
+      const downButton = rowEl.createDiv({
+        cls: "clickable-icon",
+        attr: { "aria-label": "Move down" },
+      })
+      setIcon(downButton, "arrow-down")
+      downButton.addEventListener("click", () =>
+        this.moveSource(order, index, index + 1)
+      )
+    })
+  }
+
+  /**
+   * Starts dragging a row of a reorderable list
+   *
+   * Used by the source order list and the frontmatter property list.
+   *
+   * @param e - The mousedown event on the drag handle
+   * @param index - The index of the dragged row
+   * @param listEl - The list element containing the rows
+   * @param rowEls - The row elements in display order
+   * @param onDrop - Called with the index the row was dropped on
+   */
+  private startRowDrag(
+    e: MouseEvent,
+    index: number,
+    listEl: HTMLElement,
+    rowEls: HTMLElement[],
+    onDrop: (toIndex: number) => void
+  ): void {
+    e.preventDefault()
+    e.stopPropagation()
+
+    let overIndex: number | null = null
+    rowEls[index].addClass("dragging")
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const found = rowEls.findIndex(rowEl => {
+        const rect = rowEl.getBoundingClientRect()
+        return e.clientY >= rect.top && e.clientY <= rect.bottom
+      })
+      overIndex = found !== -1 && found !== index ? found : null
+      rowEls.forEach((rowEl, i) =>
+        rowEl.toggleClass("drag-over", i === overIndex)
+      )
+    }
+
+    const handleMouseUp = () => {
+      document.removeEventListener("mousemove", handleMouseMove)
+      document.removeEventListener("mouseup", handleMouseUp)
+      listEl
+        .querySelectorAll(".dragging, .drag-over")
+        .forEach(el => el.removeClasses(["dragging", "drag-over"]))
+
+      if (overIndex !== null) {
+        onDrop(overIndex)
+      }
+    }
+
+    document.addEventListener("mousemove", handleMouseMove)
+    document.addEventListener("mouseup", handleMouseUp)
+  }
+
+  /**
+   * Moves a provider to a new position and saves the new order
+   *
+   * Providers of plugins that are currently disabled keep their place in the
+   * saved order, after the listed ones.
+   *
+   * @param order - The current provider order
+   * @param fromIndex - The current index of the provider
+   * @param toIndex - The new index of the provider
+   */
+  private async moveSource(
+    order: IconProvider[],
+    fromIndex: number,
+    toIndex: number
+  ): Promise<void> {
+    if (toIndex < 0 || toIndex >= order.length) return
+
+    const newOrder = order.map(provider => provider.id)
+    const [id] = newOrder.splice(fromIndex, 1)
+    newOrder.splice(toIndex, 0, id)
+
+    this.plugin.settings.sourceOrder = [
+      ...newOrder,
+      ...this.plugin.settings.sourceOrder.filter(
+        configured => !newOrder.includes(configured)
+      ),
+    ]
+    await this.plugin.saveSettings()
+    this.plugin.refreshAllIcons()
+    this.display()
+  }
+
+  /**
+   * Enables or disables an icon provider and saves the change
+   *
+   * Built-in providers use their own enable setting, so the toggle in the
+   * priority order list and the one in the provider's section stay in sync.
+   *
+   * @param id - The provider id
+   * @param enabled - Whether the provider should be enabled
+   */
+  private async setProviderEnabled(
+    id: string,
+    enabled: boolean
+  ): Promise<void> {
+    const setting = SOURCE_ENABLE_SETTINGS[id as IconSource]
+    if (setting) {
+      this.plugin.settings[setting] = enabled
+    } else {
+      const disabled = this.plugin.settings.disabledProviders.filter(
+        disabledId => disabledId !== id
+      )
+      this.plugin.settings.disabledProviders = enabled
+        ? disabled
+        : [...disabled, id]
+    }
+
+    await this.plugin.saveSettings()
+    this.plugin.refreshAllIcons()
+    this.plugin.loadInlineFields()
+    this.display()
   }
 
   /**
    * Adds settings for frontmatter-based icon association
    *
-   * Creates a toggle to enable/disable frontmatter icons and a text input
-   * for configuring which property name to read from (defaults to "icon").
+   * Creates a toggle to enable/disable frontmatter icons, the list of
+   * property names to read the icon from (defaults to "icon"), and a text
+   * input for the property to read its color from (defaults to "icon-color").
    *
    * @param containerEl - The container element to add settings to
    */
@@ -155,25 +581,538 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
         toggle
           .setValue(this.plugin.settings.enableFrontmatter)
           .onChange(async value => {
-            this.plugin.settings.enableFrontmatter = value
+            this.plugin.settings.enableFrontmatter = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+            this.display()
+          })
+      )
+
+    if (this.plugin.settings.enableFrontmatter) {
+      this.addIconPropertySettings(containerEl)
+
+      new Setting(containerEl)
+        .setName("Frontmatter color property name")
+        .setDesc(
+          "The frontmatter property to read icon colors from. Accepts hex colors, CSS variables, or theme colors (e.g. blue). Overrides colors from tag and folder mappings."
+        )
+        .addText(text =>
+          text
+            .setPlaceholder("icon-color")
+            .setValue(this.plugin.settings.frontmatterColorProperty)
+            .onChange(async value => {
+              this.plugin.settings.frontmatterColorProperty =
+                value || "icon-color"
+              await this.plugin.saveSettings()
+              this.plugin.refreshAllIcons()
+            })
+        )
+    }
+  }
+
+  /**
+   * Adds the list of frontmatter properties icons are read from
+   *
+   * Each property is a row with a text input that can be dragged by its
+   * handle or moved with the arrow buttons, and removed. Properties are
+   * checked from top to bottom.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addIconPropertySettings(containerEl: HTMLElement): void {
+    const properties = this.plugin.settings.frontmatterProperties
+
+    new Setting(containerEl)
+      .setName("Frontmatter property names")
+      .setDesc(
+        "The frontmatter properties to read icon names from, checked from top to bottom. Use dots for nested properties (meta.icon). For list properties, the first entry that is an icon or emoji is used."
+      )
+      .addButton(button =>
+        button
+          .setButtonText("Add property")
+          .onClick(() =>
+            this.setIconProperties(
+              [...this.plugin.settings.frontmatterProperties, ""],
+              true
+            )
+          )
+      )
+
+    const listEl = containerEl.createDiv({ cls: "source-order-list" })
+    const rowEls: HTMLElement[] = []
+
+    properties.forEach((property, index) => {
+      const rowEl = listEl.createDiv({ cls: "source-order-row" })
+      rowEls.push(rowEl)
+
+      const dragHandle = rowEl.createDiv({ cls: "tag-mapping-drag-handle" })
+      dragHandle.setAttribute("title", "Drag to reorder")
+      dragHandle.setText("⋮⋮")
+      dragHandle.addEventListener("mousedown", e =>
+        this.startRowDrag(e, index, listEl, rowEls, toIndex =>
+          this.moveIconProperty(index, toIndex)
+        )
+      )
+
+      rowEl
+        .createDiv({ cls: "tag-mapping-priority" })
+        .createEl("span", { text: `${index + 1}` })
+
+      const text = new TextComponent(rowEl)
+        .setPlaceholder("icon")
+        .setValue(property)
+        .onChange(value => {
+          // Keep the input focused while typing
+          const updated = [...this.plugin.settings.frontmatterProperties]
+          updated[index] = value.trim()
+          this.setIconProperties(updated, false)
+        })
+      text.inputEl.addClass("source-order-label")
+
+      const upButton = rowEl.createDiv({
+        cls: "clickable-icon",
+        attr: { "aria-label": "Move up" },
+      })
+      setIcon(upButton, "arrow-up")
+      upButton.addEventListener("click", () =>
+        this.moveIconProperty(index, index - 1)
+      )
+
+      const downButton = rowEl.createDiv({
+        cls: "clickable-icon",
+        attr: { "aria-label": "Move down" },
+      })
+      setIcon(downButton, "arrow-down")
+      downButton.addEventListener("click", () =>
+        this.moveIconProperty(index, index + 1)
+      )
+
+      const deleteButton = rowEl.createDiv({
+        cls: "clickable-icon",
+        attr: { "aria-label": "Delete" },
+      })
+      setIcon(deleteButton, "trash")
+      deleteButton.addEventListener("click", () =>
+        this.setIconProperties(
+          this.plugin.settings.frontmatterProperties.filter(
+            (_, i) => i !== index
+          ),
+          true
+        )
+      )
+    })
+  }
+
+  /**
+   * Moves a frontmatter property to a new position in the list
+   *
+   * @param fromIndex - The current index of the property
+   * @param toIndex - The new index of the property
+   */
+  private async moveIconProperty(
+    fromIndex: number,
+    toIndex: number
+  ): Promise<void> {
+    const properties = [...this.plugin.settings.frontmatterProperties]
+    if (toIndex < 0 || toIndex >= properties.length) return
+
+    const [property] = properties.splice(fromIndex, 1)
+    properties.splice(toIndex, 0, property)
+    await this.setIconProperties(properties, true)
+  }
+
+  /**
+   * Saves the frontmatter properties icons are read from
+   *
+   * @param properties - The property names in the order to try them
+   * @param redisplay - Whether to redraw the settings; not done while typing,
+   *   so that the input keeps its focus
+   */
+  private async setIconProperties(
+    properties: string[],
+    redisplay: boolean
+  ): Promise<void> {
+    this.plugin.settings.frontmatterProperties = properties
+    await this.plugin.saveSettings()
+    this.plugin.refreshAllIcons()
+    if (redisplay) {
+      this.display()
+    }
+  }
+
+  /**
+   * Adds settings for inline field icon association
+   *
+   * Creates a toggle to enable/disable icons from Dataview-style inline
+   * fields. The fields use the property names of the frontmatter settings.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addInlineFieldSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h4", { text: "Inline Fields" })
+
+    const [property] = getIconProperties(this.plugin.settings)
+    new Setting(containerEl)
+      .setName("Enable inline fields")
+      .setDesc(
+        `Allow specifying icons via inline fields in the note body (e.g. ${property}:: rocket), using the frontmatter property names`
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.enableInlineFields)
+          .onChange(async value => {
+            this.plugin.settings.enableInlineFields = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+            this.plugin.loadInlineFields()
+            this.display()
+          })
+      )
+  }
+
+  /**
+   * Adds settings for compound rule icon association
+   *
+   * Creates a toggle to enable/disable rules and a button to open the rule
+   * builder modal.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addRuleSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h4", { text: "Rules" })
+
+    new Setting(containerEl)
+      .setName("Enable rules")
+      .setDesc(
+        "Allow combining tags, folders, properties, extensions, and file names with AND / OR / NOT"
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.enableRules)
+          .onChange(async value => {
+            this.plugin.settings.enableRules = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+            this.display()
+          })
+      )
+
+    if (this.plugin.settings.enableRules) {
+      const ruleCount = this.plugin.settings.rules.length
+
+      new Setting(containerEl)
+        .setName("Manage rules")
+        .setDesc(
+          `${ruleCount} rule${ruleCount !== 1 ? "s" : ""} configured. Rules are checked from top to bottom.`
+        )
+        .addButton(button =>
+          button
+            .setButtonText("Open Rule Builder")
+            .setCta()
+            .onClick(() => {
+              const modal = new RuleBuilderModal(this.app, this.plugin)
+              modal.open()
+            })
+        )
+    }
+  }
+
+  /**
+   * Adds settings for the fallback icon of files no source matches
+   *
+   * Creates a toggle to enable/disable the fallback icon, an input for the
+   * default fallback icon, toggles for the locations it is shown in, and a
+   * list of fallback icons per file type.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addFallbackSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Fallback Icon" })
+    containerEl.createEl("p", {
+      text: "Give files that no association method matches a default icon, so that icons stay aligned in the file explorer.",
+      cls: "setting-item-description",
+    })
+
+    new Setting(containerEl)
+      .setName("Enable fallback icon")
+      .setDesc("Show a default icon for files without an icon")
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.enableFallbackIcon)
+          .onChange(async value => {
+            this.plugin.settings.enableFallbackIcon = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+            this.display()
+          })
+      )
+
+    if (!this.plugin.settings.enableFallbackIcon) return
+
+    let previewButton: ButtonComponent
+    new Setting(containerEl)
+      .setName("Default icon")
+      .setDesc("Used for files of types without their own fallback icon below")
+      .addText(text => {
+        text
+          .setPlaceholder("file")
+          .setValue(this.plugin.settings.fallbackIcon)
+          .onChange(async value => {
+            this.plugin.settings.fallbackIcon = value.trim()
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+
+            if (value.trim()) {
+              IconElementFactory.setIconContent(
+                previewButton.buttonEl,
+                value.trim()
+              )
+            } else {
+              previewButton.setButtonText("Icon")
+            }
+          })
+        text.inputEl.addClass("icon-name-input")
+      })
+      .addButton(button => {
+        previewButton = button
+        if (this.plugin.settings.fallbackIcon) {
+          IconElementFactory.setIconContent(
+            button.buttonEl,
+            this.plugin.settings.fallbackIcon
+          )
+        } else {
+          button.setButtonText("Icon")
+        }
+        button.setTooltip("Icon preview")
+        button.setDisabled(true) // Display only
+      })
+
+    const locations = Object.keys(FALLBACK_LOCATION_LABELS) as RenderLocation[]
+    for (const location of locations) {
+      new Setting(containerEl)
+        .setName(FALLBACK_LOCATION_LABELS[location])
+        .addToggle(toggle =>
+          toggle
+            .setValue(this.plugin.settings.fallbackLocations[location])
+            .onChange(async value => {
+              this.plugin.settings.fallbackLocations = {
+                ...this.plugin.settings.fallbackLocations,
+                [location]: value,
+              }
+              await this.plugin.saveSettings()
+              this.plugin.refreshAllIcons()
+            })
+        )
+    }
+
+    containerEl.createEl("h4", { text: "Fallback Icons by File Type" })
+    containerEl.createEl("p", {
+      text: "Use a different fallback icon per file type, with the same patterns as extension mappings (md, png|jpg, image/*). Unlike extension mappings, these only apply when nothing else matches.",
+      cls: "setting-item-description",
+    })
+
+    new Setting(containerEl)
+      .setName("Add fallback mapping")
+      .setDesc("Create a new file type to fallback icon mapping")
+      .addButton(button =>
+        button.setButtonText("Add mapping").onClick(() => {
+          this.plugin.settings.fallbackMappings.push({
+            extension: "",
+            icon: "",
+          })
+          this.plugin.saveSettings()
+          this.display()
+        })
+      )
+
+    const mappings = this.plugin.settings.fallbackMappings
+    mappings.forEach((mapping, index) => {
+      this.addExtensionMappingRow(containerEl, mappings, mapping, index)
+    })
+  }
+
+  /**
+   * Adds settings for icons on links to files that don't exist
+   *
+   * Creates a toggle to enable/disable unresolved link icons, an input for
+   * the icon, and a toggle for predicting the icon of the file the link
+   * would create.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addUnresolvedLinkSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Unresolved Links" })
+    containerEl.createEl("p", {
+      text: "Show an icon on links to notes that don't exist yet, in reading mode, live preview, and properties. These icons are dimmed so they stand out from links to existing notes.",
+      cls: "setting-item-description",
+    })
+
+    new Setting(containerEl)
+      .setName("Enable unresolved link icons")
+      .setDesc("Show an icon on links to notes that don't exist")
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.enableUnresolvedLinkIcon)
+          .onChange(async value => {
+            this.plugin.settings.enableUnresolvedLinkIcon = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+            this.display()
+          })
+      )
+
+    if (!this.plugin.settings.enableUnresolvedLinkIcon) return
+
+    let previewButton: ButtonComponent
+    new Setting(containerEl)
+      .setName("Unresolved link icon")
+      .setDesc("For example file-plus or circle-dashed (leave empty for none)")
+      .addText(text => {
+        text
+          .setPlaceholder("file-plus")
+          .setValue(this.plugin.settings.unresolvedLinkIcon)
+          .onChange(async value => {
+            this.plugin.settings.unresolvedLinkIcon = value.trim()
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+
+            if (value.trim()) {
+              IconElementFactory.setIconContent(
+                previewButton.buttonEl,
+                value.trim()
+              )
+            } else {
+              previewButton.setButtonText("Icon")
+            }
+          })
+        text.inputEl.addClass("icon-name-input")
+      })
+      .addButton(button => {
+        previewButton = button
+        if (this.plugin.settings.unresolvedLinkIcon) {
+          IconElementFactory.setIconContent(
+            button.buttonEl,
+            this.plugin.settings.unresolvedLinkIcon
+          )
+        } else {
+          button.setButtonText("Icon")
+        }
+        button.setTooltip("Icon preview")
+        button.setDisabled(true) // Display only
+      })
+
+    new Setting(containerEl)
+      .setName("Show the icon of the new note")
+      .setDesc(
+        "When the note a link would create gets an icon from its extension, folder note, or folder mapping, show that icon instead"
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.predictUnresolvedLinkIcons)
+          .onChange(async value => {
+            this.plugin.settings.predictUnresolvedLinkIcons = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+          })
+      )
+  }
+
+  /**
+   * Adds settings for badges shown on file icons
+   *
+   * Creates a toggle to enable/disable badges and a button to open the rule
+   * builder for the badge rules.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addBadgeSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Badges" })
+    containerEl.createEl("p", {
+      text: "Badges are small icons shown on the corner of a file's icon, such as a check for finished notes. They come from their own rules, checked independently of the icon sources above.",
+      cls: "setting-item-description",
+    })
+
+    new Setting(containerEl)
+      .setName("Enable badges")
+      .setDesc("Show a badge from the first matching badge rule on file icons")
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.enableBadges)
+          .onChange(async value => {
+            this.plugin.settings.enableBadges = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+            this.display()
+          })
+      )
+
+    if (this.plugin.settings.enableBadges) {
+      const ruleCount = this.plugin.settings.badgeRules.length
+
+      new Setting(containerEl)
+        .setName("Manage badge rules")
+        .setDesc(
+          `${ruleCount} badge rule${ruleCount !== 1 ? "s" : ""} configured. Badge rules are checked from top to bottom.`
+        )
+        .addButton(button =>
+          button
+            .setButtonText("Open Rule Builder")
+            .setCta()
+            .onClick(() => {
+              const modal = new RuleBuilderModal(
+                this.app,
+                this.plugin,
+                "badgeRules"
+              )
+              modal.open()
+            })
+        )
+    }
+  }
+
+  /**
+   * Adds settings for property-value-based icon association
+   *
+   * Creates a toggle to enable/disable property mappings and displays a
+   * summary of existing mappings with a button to open the property mapping
+   * modal.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addPropertySettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h4", { text: "Properties" })
+
+    new Setting(containerEl)
+      .setName("Enable properties")
+      .setDesc(
+        "Allow associating icons with frontmatter property values (e.g. status = done)"
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.enableProperties)
+          .onChange(async value => {
+            this.plugin.settings.enableProperties = value
             await this.plugin.saveSettings()
-            this.plugin.iconResolver.updateSettings(this.plugin.settings)
+            this.plugin.refreshAllIcons()
             this.display()
           })
       )
 
-    if (this.plugin.settings.enableFrontmatter) {
+    if (this.plugin.settings.enableProperties) {
+      const mappingCount = this.plugin.settings.propertyMappings.length
+
       new Setting(containerEl)
-        .setName("Frontmatter property name")
-        .setDesc("The frontmatter property to read icon names from")
-        .addText(text =>
-          text
-            .setPlaceholder("icon")
-            .setValue(this.plugin.settings.frontmatterProperty)
-            .onChange(async value => {
-              this.plugin.settings.frontmatterProperty = value || "icon"
-              await this.plugin.saveSettings()
-              this.plugin.iconResolver.updateSettings(this.plugin.settings)
+        .setName("Manage property mappings")
+        .setDesc(
+          `${mappingCount} mapping${mappingCount !== 1 ? "s" : ""} configured. Property mappings are checked in priority order.`
+        )
+        .addButton(button =>
+          button
+            .setButtonText("Manage Property Mappings")
+            .setCta()
+            .onClick(() => {
+              const modal = new PropertyMappingModal(this.app, this.plugin)
+              modal.open()
             })
         )
     }
@@ -199,17 +1138,34 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
           .onChange(async value => {
             this.plugin.settings.enableTags = value
             await this.plugin.saveSettings()
-            this.plugin.iconResolver.updateSettings(this.plugin.settings)
+            this.plugin.refreshAllIcons()
             this.display()
           })
       )
 
     if (this.plugin.settings.enableTags) {
       containerEl.createEl("p", {
-        text: "Tag mappings are checked in priority order. Higher priority mappings appear first.",
+        text: "Tag mappings are checked in priority order. Higher priority mappings appear first. Mappings also match nested tags unless set to exact match.",
         cls: "setting-item-description",
       })
 
+      new Setting(containerEl)
+        .setName("Nested tag matching")
+        .setDesc(
+          "When several mappings match a file's tags, use the first in priority order or the most specific (deepest) tag"
+        )
+        .addDropdown(dropdown =>
+          dropdown
+            .addOption("priority", "Priority order")
+            .addOption("specificity", "Most specific tag")
+            .setValue(this.plugin.settings.tagMatchMode)
+            .onChange(async value => {
+              this.plugin.settings.tagMatchMode = value as TagMatchMode
+              await this.plugin.saveSettings()
+              this.plugin.refreshAllIcons()
+            })
+        )
+
       // Summary section
       const summaryContainer = containerEl.createDiv({
         cls: "tag-mapping-summary",
@@ -246,6 +1202,242 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
     }
   }
 
+  /**
+   * Adds settings for extension-based icon association
+   *
+   * Creates toggles to enable/disable extension icons and the built-in
+   * defaults, plus an editable list of extension mappings. User mappings are
+   * checked before the built-in ones, so they override them.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addExtensionSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h4", { text: "Extensions" })
+
+    new Setting(containerEl)
+      .setName("Enable extensions")
+      .setDesc(
+        "Allow associating icons with file extensions, e.g. for PDFs, images, and canvases"
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.enableExtensions)
+          .onChange(async value => {
+            this.plugin.settings.enableExtensions = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+            this.display()
+          })
+      )
+
+    if (this.plugin.settings.enableExtensions) {
+      new Setting(containerEl)
+        .setName("Use built-in extension icons")
+        .setDesc(
+          `Applied after your own mappings: ${BUILT_IN_EXTENSION_MAPPINGS.map(
+            mapping => `${mapping.extension} → ${mapping.icon}`
+          ).join(", ")}`
+        )
+        .addToggle(toggle =>
+          toggle
+            .setValue(this.plugin.settings.useBuiltInExtensionMappings)
+            .onChange(async value => {
+              this.plugin.settings.useBuiltInExtensionMappings = value
+              await this.plugin.saveSettings()
+              this.plugin.refreshAllIcons()
+            })
+        )
+
+      containerEl.createEl("p", {
+        text: "Separate several extensions with | (png|jpg). Use image/*, audio/*, or video/* for all files of that kind, and compound extensions such as excalidraw.md to match the end of the file name. Mappings are checked from top to bottom.",
+        cls: "setting-item-description",
+      })
+
+      new Setting(containerEl)
+        .setName("Add extension mapping")
+        .setDesc("Create a new extension to icon mapping")
+        .addButton(button =>
+          button.setButtonText("Add mapping").onClick(() => {
+            this.plugin.settings.extensionMappings.push({
+              extension: "",
+              icon: "",
+            })
+            this.plugin.saveSettings()
+            this.display()
+          })
+        )
+
+      const mappings = this.plugin.settings.extensionMappings
+      mappings.forEach((mapping, index) => {
+        this.addExtensionMappingRow(containerEl, mappings, mapping, index)
+      })
+    }
+  }
+
+  /**
+   * Creates a single row for editing an extension mapping
+   *
+   * Each row includes text inputs for the extension pattern, icon name, and
+   * optional color, an icon preview, and buttons to reorder or delete the
+   * mapping. Used for both extension mappings and fallback mappings.
+   *
+   * @param containerEl - The container element to add the row to
+   * @param mappings - The list the mapping belongs to
+   * @param mapping - The extension mapping being edited
+   * @param index - The index of this mapping in the array
+   */
+  private addExtensionMappingRow(
+    containerEl: HTMLElement,
+    mappings: ExtensionMapping[],
+    mapping: ExtensionMapping,
+    index: number
+  ): void {
+    let previewButton: ButtonComponent
+
+    const moveMapping = async (toIndex: number) => {
+      if (toIndex < 0 || toIndex >= mappings.length) return
+      mappings.splice(index, 1)
+      mappings.splice(toIndex, 0, mapping)
+      await this.plugin.saveSettings()
+      this.plugin.refreshAllIcons()
+      this.display()
+    }
+
+    const setting = new Setting(containerEl)
+      .addText(text =>
+        text
+          .setPlaceholder("pdf|png or image/*")
+          .setValue(mapping.extension)
+          .onChange(async value => {
+            mappings[index].extension = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+          })
+      )
+      .addText(text => {
+        text
+          .setPlaceholder("icon-name")
+          .setValue(mapping.icon)
+          .onChange(async value => {
+            mappings[index].icon = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+
+            // Update icon preview in place without re-rendering the entire UI
+            if (value) {
+              IconElementFactory.setIconContent(previewButton.buttonEl, value)
+            } else {
+              previewButton.setButtonText("Icon")
+            }
+          })
+        text.inputEl.addClass("icon-name-input")
+      })
+      .addText(text => {
+        text
+          .setPlaceholder("color")
+          .setValue(mapping.color ?? "")
+          .onChange(async value => {
+            const color = value.trim()
+            if (color) {
+              mappings[index].color = color
+            } else {
+              delete mappings[index].color
+            }
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+          })
+        text.inputEl.addClass("icon-color-input")
+        text.inputEl.setAttribute(
+          "title",
+          "Hex color, CSS variable, or theme color (e.g. blue)"
+        )
+      })
+      .addButton(button => {
+        previewButton = button
+        if (mapping.icon) {
+          IconElementFactory.setIconContent(button.buttonEl, mapping.icon)
+        } else {
+          button.setButtonText("Icon")
+        }
+        button.setTooltip("Icon preview - type icon name in field above")
+        button.setDisabled(true) // Display only
+      })
+      .addExtraButton(button =>
+        button
+          .setIcon("arrow-up")
+          .setTooltip("Move up")
+          .onClick(() => moveMapping(index - 1))
+      )
+      .addExtraButton(button =>
+        button
+          .setIcon("arrow-down")
+          .setTooltip("Move down")
+          .onClick(() => moveMapping(index + 1))
+      )
+      .addExtraButton(button =>
+        button
+          .setIcon("trash")
+          .setTooltip("Delete")
+          .onClick(async () => {
+            mappings.splice(index, 1)
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+            this.display()
+          })
+      )
+
+    setting.infoEl.remove()
+  }
+
+  /**
+   * Adds settings for folder note icon inheritance
+   *
+   * Creates a toggle to enable/disable folder note inheritance and a text
+   * input for the folder note naming convention.
+   *
+   * @param containerEl - The container element to add settings to
+   */
+  private addFolderNoteSettings(containerEl: HTMLElement): void {
+    containerEl.createEl("h4", { text: "Folder Notes" })
+
+    new Setting(containerEl)
+      .setName("Enable folder notes")
+      .setDesc(
+        "Let files inherit the frontmatter icon of the nearest folder note above them"
+      )
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.enableFolderNotes)
+          .onChange(async value => {
+            this.plugin.settings.enableFolderNotes = value
+            await this.plugin.saveSettings()
+            this.plugin.refreshAllIcons()
+            this.display()
+          })
+      )
+
+    if (this.plugin.settings.enableFolderNotes) {
+      new Setting(containerEl)
+        .setName("Folder note names")
+        .setDesc(
+          "Comma-separated file names (without .md) of folder notes inside their folder. {folder} stands for the folder's name, so {folder} matches projects/Alpha/Alpha.md."
+        )
+        .addText(text =>
+          text
+            .setPlaceholder("{folder}, index")
+            .setValue(this.plugin.settings.folderNoteNames.join(", "))
+            .onChange(async value => {
+              this.plugin.settings.folderNoteNames = value
+                .split(",")
+                .map(name => name.trim())
+                .filter(name => name !== "")
+              await this.plugin.saveSettings()
+              this.plugin.refreshAllIcons()
+            })
+        )
+    }
+  }
+
   /**
    * Adds settings for folder-based icon association
    *
@@ -267,14 +1459,14 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
           .onChange(async value => {
             this.plugin.settings.enableFolders = value
             await this.plugin.saveSettings()
-            this.plugin.iconResolver.updateSettings(this.plugin.settings)
+            this.plugin.refreshAllIcons()
             this.display()
           })
       )
 
     if (this.plugin.settings.enableFolders) {
       containerEl.createEl("p", {
-        text: "Paths are relative to vault root. Deepest matching folder takes priority.",
+        text: "Paths are relative to vault root. Use a folder path (projects/work), a glob pattern (**/meetings/*.md, journal/2024-*), or toggle regex mode to match the full file path with a regular expression. The most specific matching mapping takes priority.",
         cls: "setting-item-description",
       })
 
@@ -295,15 +1487,127 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
         this.addFolderMappingRow(containerEl, mapping, index)
       })
     }
+
+    // Icons set directly on folders apply even when folder mappings are off
+    new Setting(containerEl)
+      .setName("Folder icons")
+      .setDesc(
+        "Icons shown on the folders themselves in the file explorer. Right-click a folder and choose 'Set folder icon' to add one."
+      )
+      .addButton(button =>
+        button.setButtonText("Add folder icon").onClick(() => {
+          this.plugin.settings.folderIcons.push({ path: "", icon: "" })
+          this.plugin.saveSettings()
+          this.display()
+        })
+      )
+
+    this.plugin.settings.folderIcons.forEach((folderIcon, index) => {
+      this.addFolderIconRow(containerEl, folderIcon, index)
+    })
+  }
+
+  /**
+   * Creates a single row for editing an icon set directly on a folder
+   *
+   * Each row includes text inputs for the folder path, the icon, the optional
+   * open icon, and the optional color, plus a delete button.
+   *
+   * @param containerEl - The container element to add the row to
+   * @param folderIcon - The folder icon being edited
+   * @param index - The index of this entry in the array
+   */
+  private addFolderIconRow(
+    containerEl: HTMLElement,
+    folderIcon: FolderIcon,
+    index: number
+  ): void {
+    const folderIcons = this.plugin.settings.folderIcons
+
+    const save = async () => {
+      await this.plugin.saveSettings()
+      this.plugin.refreshAllIcons()
+    }
+
+    const setting = new Setting(containerEl)
+      .addText(text =>
+        text
+          .setPlaceholder("folder/path")
+          .setValue(folderIcon.path)
+          .onChange(async value => {
+            folderIcons[index].path = value.trim()
+            await save()
+          })
+      )
+      .addText(text => {
+        text
+          .setPlaceholder("icon-name")
+          .setValue(folderIcon.icon)
+          .onChange(async value => {
+            folderIcons[index].icon = value.trim()
+            await save()
+          })
+        text.inputEl.addClass("icon-name-input")
+      })
+      .addText(text => {
+        text
+          .setPlaceholder("open icon")
+          .setValue(folderIcon.openIcon ?? "")
+          .onChange(async value => {
+            const openIcon = value.trim()
+            if (openIcon) {
+              folderIcons[index].openIcon = openIcon
+            } else {
+              delete folderIcons[index].openIcon
+            }
+            await save()
+          })
+        text.inputEl.addClass("icon-name-input")
+        text.inputEl.setAttribute("title", "Icon shown while expanded")
+      })
+      .addText(text => {
+        text
+          .setPlaceholder("color")
+          .setValue(folderIcon.color ?? "")
+          .onChange(async value => {
+            const color = value.trim()
+            if (color) {
+              folderIcons[index].color = color
+            } else {
+              delete folderIcons[index].color
+            }
+            await save()
+          })
+        text.inputEl.addClass("icon-color-input")
+        text.inputEl.setAttribute(
+          "title",
+          "Hex color, CSS variable, or theme color (e.g. blue)"
+        )
+      })
+      .addExtraButton(button =>
+        button
+          .setIcon("trash")
+          .setTooltip("Delete")
+          .onClick(async () => {
+            folderIcons.splice(index, 1)
+            await save()
+            this.display()
+          })
+      )
+
+    setting.infoEl.remove()
   }
 
   /**
    * Creates a single row for editing a folder mapping
    *
    * Each row includes:
-   * - Text input for the folder path
+   * - Text input for the folder path, glob pattern, or regular expression
    * - Text input for the icon name
+   * - Text input for the optional open icon (shown on expanded folders)
+   * - Text input for the optional icon color
    * - Preview button showing the icon
+   * - Regex toggle
    * - Delete button
    *
    * @param containerEl - The container element to add the row to
@@ -318,16 +1622,24 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
     let previewButton: any
 
     const setting = new Setting(containerEl)
-      .addText(text =>
+      .addText(text => {
+        const updateValidity = (value: string) =>
+          text.inputEl.toggleClass(
+            "is-invalid",
+            mapping.regex === true && !isValidRegex(value)
+          )
+
         text
-          .setPlaceholder("folder/path")
+          .setPlaceholder(mapping.regex ? "^regex$" : "folder/path or glob")
           .setValue(mapping.path)
           .onChange(async value => {
             this.plugin.settings.folderMappings[index].path = value
+            updateValidity(value)
             await this.plugin.saveSettings()
-            this.plugin.iconResolver.clearCache()
+            this.plugin.refreshChangedMappings()
           })
-      )
+        updateValidity(mapping.path)
+      })
       .addText(text => {
         text
           .setPlaceholder("icon-name")
@@ -335,11 +1647,11 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
           .onChange(async value => {
             this.plugin.settings.folderMappings[index].icon = value
             await this.plugin.saveSettings()
-            this.plugin.iconResolver.clearCache()
+            this.plugin.refreshChangedMappings()
 
             // Update icon preview in place without re-rendering the entire UI
             if (value) {
-              setIcon(previewButton.buttonEl, value)
+              IconElementFactory.setIconContent(previewButton.buttonEl, value)
               previewButton.setTooltip(
                 "Icon preview - type icon name in field above"
               )
@@ -352,10 +1664,50 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
           })
         text.inputEl.addClass("icon-name-input")
       })
+      .addText(text => {
+        text
+          .setPlaceholder("open icon")
+          .setValue(mapping.openIcon ?? "")
+          .onChange(async value => {
+            const openIcon = value.trim()
+            if (openIcon) {
+              this.plugin.settings.folderMappings[index].openIcon = openIcon
+            } else {
+              delete this.plugin.settings.folderMappings[index].openIcon
+            }
+            await this.plugin.saveSettings()
+            this.plugin.refreshChangedMappings()
+          })
+        text.inputEl.addClass("icon-name-input")
+        text.inputEl.setAttribute(
+          "title",
+          "Icon shown on the folder itself while expanded"
+        )
+      })
+      .addText(text => {
+        text
+          .setPlaceholder("color")
+          .setValue(mapping.color ?? "")
+          .onChange(async value => {
+            const color = value.trim()
+            if (color) {
+              this.plugin.settings.folderMappings[index].color = color
+            } else {
+              delete this.plugin.settings.folderMappings[index].color
+            }
+            await this.plugin.saveSettings()
+            this.plugin.refreshChangedMappings()
+          })
+        text.inputEl.addClass("icon-color-input")
+        text.inputEl.setAttribute(
+          "title",
+          "Hex color, CSS variable, or theme color (e.g. blue)"
+        )
+      })
       .addButton(button => {
         previewButton = button
         if (mapping.icon) {
-          setIcon(button.buttonEl, mapping.icon)
+          IconElementFactory.setIconContent(button.buttonEl, mapping.icon)
           button.setTooltip("Icon preview - type icon name in field above")
         } else {
           button.setButtonText("Icon")
@@ -365,6 +1717,26 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
         }
         button.setDisabled(true) // Display only
       })
+      .addExtraButton(button => {
+        button
+          .setIcon("regex")
+          .setTooltip(
+            mapping.regex
+              ? "Regex mode on: path is a regular expression"
+              : "Regex mode off: path is a folder or glob pattern"
+          )
+          .onClick(async () => {
+            if (mapping.regex) {
+              delete this.plugin.settings.folderMappings[index].regex
+            } else {
+              this.plugin.settings.folderMappings[index].regex = true
+            }
+            await this.plugin.saveSettings()
+            this.plugin.refreshChangedMappings()
+            this.display()
+          })
+        button.extraSettingsEl.toggleClass("is-active", mapping.regex === true)
+      })
       .addExtraButton(button =>
         button
           .setIcon("trash")
@@ -372,7 +1744,7 @@ export class SimpleIconsSettingTab extends PluginSettingTab {
           .onClick(async () => {
             this.plugin.settings.folderMappings.splice(index, 1)
             await this.plugin.saveSettings()
-            this.plugin.iconResolver.clearCache()
+            this.plugin.refreshChangedMappings()
             this.display()
           })
       )
@@ -0,0 +1,239 @@
+/**
+ * SimpleIconsApi.ts
+ *
+ * This file provides the public API that other plugins and user scripts
+ * (Templater, QuickAdd, ...) use to query and set icons. It is available as
+ * the `api` property of the plugin instance:
+ *
+ *   const api = app.plugins.plugins["simple-icons"]?.api
+ *   if (api?.version === 1) api.getIcon(file)
+ *
+ * The API only returns copies in the public ApiIcon and ApiIconTrace shapes,
+ * so the IconResolver and renderers can change without breaking callers.
+ * Breaking changes to the API increase API_VERSION.
+ */
+
+import { EventRef, Events, TAbstractFile, TFile, TFolder } from "obsidian"
+import { resolveIconAlias } from "./IconAliases"
+import { IconElementFactory } from "./IconElementFactory"
+import SimpleIconsPlugin from "./main"
+import { triggerIconRefresh } from "./EditorExtension"
+import { getIconProperties, setFrontmatterValue } from "./providers"
+import { ApiIcon, ApiIconTrace, IconProvider, ResolvedIcon } from "./types"
+
+/** Version of the public API; increased on breaking changes */
+export const API_VERSION = 1
+
+/**
+ * Name of the workspace event triggered when a file's icon changed
+ *
+ * Called with the file, the old icon, and the new icon (ApiIcon or null).
+ */
+export const ICON_CHANGED_EVENT = "simple-icons:icon-changed"
+
+/**
+ * Public API of the Simple Icons plugin
+ */
+export class SimpleIconsApi {
+  /** The API version, see API_VERSION */
+  readonly version = API_VERSION
+
+  private plugin: SimpleIconsPlugin
+
+  /**
+   * Creates the API for a plugin instance
+   *
+   * @param plugin - The plugin instance
+   */
+  constructor(plugin: SimpleIconsPlugin) {
+    this.plugin = plugin
+  }
+
+  /**
+   * Returns the icon shown for a file or folder
+   *
+   * @param file - The file or folder, or its vault path
+   * @returns The icon, or null if it has none or the path does not exist
+   */
+  getIcon(file: TAbstractFile | string): ApiIcon | null {
+    const target = this.getTarget(file)
+    if (target instanceof TFile) {
+      return toApiIcon(this.plugin.iconResolver.getIconForFile(target))
+    }
+    if (target instanceof TFolder) {
+      return toApiIcon(this.plugin.iconResolver.getIconForFolder(target))
+    }
+    return null
+  }
+
+  /**
+   * Explains how the icon of a file is resolved
+   *
+   * Lists every icon source with its outcome, like the "Explain icon for
+   * current file" command.
+   *
+   * @param file - The file, or its vault path
+   * @returns The explanation, or null if the path is not a file
+   */
+  getIconTrace(file: TFile | string): ApiIconTrace | null {
+    const target = this.getTarget(file)
+    if (!(target instanceof TFile)) return null
+
+    const trace = this.plugin.iconResolver.explainIconForFile(target)
+    return {
+      path: trace.path,
+      steps: trace.steps.map(step => ({
+        source: step.source,
+        label: step.name,
+        status: step.status,
+        candidate: toApiIcon(step.candidate ?? null) ?? undefined,
+        detail: step.detail,
+      })),
+      icon: toApiIcon(trace.resolved),
+    }
+  }
+
+  /**
+   * Sets or removes the icon of a note or folder
+   *
+   * Notes get the icon in their frontmatter (using the first configured
+   * property), folders get it as a folder icon. Other files have no place to
+   * store an icon; use a mapping or rule for them instead.
+   *
+   * @param file - The note or folder, or its vault path
+   * @param name - The icon name, or null to remove the icon
+   * @throws If the path does not exist or is neither a note nor a folder
+   */
+  async setIcon(
+    file: TAbstractFile | string,
+    name: string | null
+  ): Promise<void> {
+    const target = this.getTarget(file)
+    const icon = name?.trim() || null
+
+    if (target instanceof TFolder) {
+      await this.plugin.setFolderIcon(target.path, icon ? { icon } : null)
+      return
+    }
+
+    if (!(target instanceof TFile) || target.extension !== "md") {
+      throw new Error(
+        `Simple Icons: cannot set an icon on "${typeof file === "string" ? file : file.path}", only on notes and folders`
+      )
+    }
+
+    const [property] = getIconProperties(this.plugin.settings)
+    await this.plugin.app.fileManager.processFrontMatter(target, frontmatter =>
+      setFrontmatterValue(frontmatter, property, icon)
+    )
+  }
+
+  /**
+   * Creates an icon element styled like the plugin's own icons
+   *
+   * @param name - The icon name or an icon alias
+   * @param color - Optional icon color (hex, CSS variable, or theme color)
+   * @returns The icon element, ready to be inserted into the DOM
+   */
+  createIconEl(name: string, color?: string): HTMLElement {
+    return IconElementFactory.createIconElement({
+      icon: resolveIconAlias(name, this.plugin.settings),
+      color,
+    })
+  }
+
+  /**
+   * Registers an icon provider
+   *
+   * The provider is checked together with the built-in sources (frontmatter,
+   * tags, folders, ...), at the position given by its priority until the
+   * user reorders it in the settings, where it can also be turned off. Icons
+   * are resolved again whenever a file's metadata changes. Call the returned
+   * function when your plugin unloads, e.g. by passing it to Plugin.register.
+   *
+   * @param provider - The provider to register
+   * @returns A function that unregisters the provider
+   * @throws If a provider with the same id is already registered
+   */
+  registerIconProvider(provider: IconProvider): () => void {
+    this.plugin.iconResolver.registerProvider(provider)
+    this.refreshAllIcons()
+
+    return () => {
+      this.plugin.iconResolver.unregisterProvider(provider)
+      this.refreshAllIcons()
+    }
+  }
+
+  /**
+   * Subscribes to icon changes
+   *
+   * The callback is called whenever the resolved icon of a file actually
+   * changed, e.g. after its frontmatter or a mapping it matches was edited.
+   * This is the same as listening to ICON_CHANGED_EVENT on the workspace.
+   * Pass the returned reference to Plugin.registerEvent to unsubscribe
+   * automatically when the calling plugin unloads, or to offIconChange.
+   *
+   * @param callback - Called with the file, its old icon, and its new icon
+   * @returns A reference for unsubscribing
+   */
+  onIconChange(
+    callback: (
+      file: TFile,
+      oldIcon: ApiIcon | null,
+      newIcon: ApiIcon | null
+    ) => void
+  ): EventRef {
+    // Workspace only declares the events of Obsidian itself
+    const workspace: Events = this.plugin.app.workspace
+    return workspace.on(
+      ICON_CHANGED_EVENT,
+      callback as (...data: unknown[]) => unknown
+    )
+  }
+
+  /**
+   * Unsubscribes from icon changes
+   *
+   * @param ref - The reference returned by onIconChange
+   */
+  offIconChange(ref: EventRef): void {
+    this.plugin.app.workspace.offref(ref)
+  }
+
+  /**
+   * Re-renders all visible icons after the set of providers changed
+   */
+  private refreshAllIcons(): void {
+    this.plugin.iconRenderer.updateAllIcons()
+    triggerIconRefresh(this.plugin.app)
+    this.plugin.requestIconChangeCheck()
+  }
+
+  /**
+   * Looks up a file or folder given as object or path
+   */
+  private getTarget(file: TAbstractFile | string): TAbstractFile | null {
+    return typeof file === "string"
+      ? this.plugin.app.vault.getAbstractFileByPath(file)
+      : file
+  }
+}
+
+/**
+ * Copies a resolved icon into the public shape
+ *
+ * @param resolved - The resolved icon
+ * @returns The public icon, or null
+ */
+export function toApiIcon(resolved: ResolvedIcon | null): ApiIcon | null {
+  if (!resolved) return null
+
+  return {
+    icon: resolved.icon,
+    color: resolved.color,
+    badge: toApiIcon(resolved.badge ?? null) ?? undefined,
+    isFallback: resolved.isFallback === true,
+    reason: resolved.reason,
+  }
+}
@@ -7,6 +7,8 @@
  */
 
 import { App, Modal, setIcon, Notice } from "obsidian"
+import { toCssColor } from "./IconColor"
+import { IconElementFactory } from "./IconElementFactory"
 import SimpleIconsPlugin from "./main"
 import { TagMapping } from "./types"
 
@@ -16,6 +18,7 @@ interface MappingRow {
   element: HTMLElement
   tagInput: HTMLInputElement
   iconInput: HTMLInputElement
+  colorInput: HTMLInputElement
   tagSuggestionsEl?: HTMLElement
   iconSuggestionsEl?: HTMLElement
 }
@@ -128,7 +131,7 @@ export class TagMappingModal extends Modal {
 
     // Explanation text
     header.createEl("p", {
-      text: "Tag mappings are checked in priority order. Drag items to reorder. Higher priority (lower number) takes precedence.",
+      text: "Tag mappings are checked in priority order. Drag items to reorder. Higher priority (lower number) takes precedence. Mappings also match nested tags (e.g. project matches project/frontend) unless set to exact match.",
       cls: "tag-mapping-explanation",
     })
 
@@ -224,7 +227,8 @@ export class TagMappingModal extends Modal {
       this.filteredMappings = this.mappings.filter(
         m =>
           m.tag.toLowerCase().includes(this.searchQuery) ||
-          m.icon.toLowerCase().includes(this.searchQuery)
+          m.icon.toLowerCase().includes(this.searchQuery) ||
+          (m.color ?? "").toLowerCase().includes(this.searchQuery)
       )
     }
 
@@ -370,13 +374,52 @@ export class TagMappingModal extends Modal {
       }, 200)
     })
 
+    // Color input
+    const colorContainer = rowEl.createDiv({
+      cls: "tag-mapping-color-container",
+    })
+    const colorInput = colorContainer.createEl("input", {
+      type: "text",
+      value: mapping.color ?? "",
+      placeholder: "color",
+      cls: "tag-mapping-color-input",
+      attr: { title: "Hex color, CSS variable, or theme color (e.g. blue)" },
+    })
+    colorInput.addEventListener("input", () => {
+      const color = colorInput.value.trim()
+      if (color) {
+        mapping.color = color
+      } else {
+        delete mapping.color
+      }
+      this.updateIconPreview(actualIndex)
+      this.autoSave()
+    })
+
     // Icon preview
     const iconPreviewEl = rowEl.createDiv({ cls: "tag-mapping-icon-preview" })
-    this.updateIconPreviewElement(iconPreviewEl, mapping.icon)
+    this.updateIconPreviewElement(iconPreviewEl, mapping.icon, mapping.color)
 
     // Action buttons container
     const actionsEl = rowEl.createDiv({ cls: "tag-mapping-actions" })
 
+    // Exact match toggle
+    const exactButton = actionsEl.createDiv({
+      cls: "tag-mapping-action-btn tag-mapping-exact-btn",
+      attr: { role: "button", tabindex: "0" },
+    })
+    setIcon(exactButton, "equal")
+    this.updateExactButton(exactButton, mapping)
+    exactButton.addEventListener("click", () =>
+      this.toggleExactMatch(exactButton, mapping)
+    )
+    exactButton.addEventListener("keydown", e => {
+      if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault()
+        this.toggleExactMatch(exactButton, mapping)
+      }
+    })
+
     // Move to top
     const moveTopButton = actionsEl.createDiv({
       cls: "tag-mapping-action-btn",
@@ -437,6 +480,7 @@ export class TagMappingModal extends Modal {
       element: rowEl,
       tagInput,
       iconInput,
+      colorInput,
     }
   }
 
@@ -600,7 +644,11 @@ export class TagMappingModal extends Modal {
       ".tag-mapping-icon-preview"
     ) as HTMLElement
     if (previewEl) {
-      this.updateIconPreviewElement(previewEl, row.mapping.icon)
+      this.updateIconPreviewElement(
+        previewEl,
+        row.mapping.icon,
+        row.mapping.color
+      )
     }
   }
 
@@ -609,12 +657,22 @@ export class TagMappingModal extends Modal {
    */
   private updateIconPreviewElement(
     element: HTMLElement,
-    iconName: string
+    iconName: string,
+    color?: string
   ): void {
     element.empty()
+
+    const cssColor = toCssColor(color)
+    element.toggleClass("has-icon-color", cssColor !== null)
+    if (cssColor) {
+      element.style.setProperty("--simple-icons-color", cssColor)
+    } else {
+      element.style.removeProperty("--simple-icons-color")
+    }
+
     if (iconName) {
       try {
-        setIcon(element, iconName)
+        IconElementFactory.setIconContent(element, iconName)
         element.setAttribute("title", iconName)
       } catch (e) {
         element.createEl("span", { text: "?", cls: "invalid-icon" })
@@ -625,6 +683,34 @@ export class TagMappingModal extends Modal {
     }
   }
 
+  /**
+   * Toggles whether a mapping matches only its exact tag or nested tags too
+   */
+  private toggleExactMatch(button: HTMLElement, mapping: TagMapping): void {
+    if (mapping.exactMatch) {
+      delete mapping.exactMatch
+    } else {
+      mapping.exactMatch = true
+    }
+    this.updateExactButton(button, mapping)
+    this.autoSave()
+  }
+
+  /**
+   * Updates the exact match toggle to reflect the mapping's current state
+   */
+  private updateExactButton(button: HTMLElement, mapping: TagMapping): void {
+    const exact = mapping.exactMatch === true
+    button.toggleClass("is-active", exact)
+    button.setAttribute("aria-pressed", exact ? "true" : "false")
+    button.setAttribute(
+      "aria-label",
+      exact
+        ? "Matches this exact tag only (click to include nested tags)"
+        : "Matches this tag and nested tags (click for exact only)"
+    )
+  }
+
   /**
    * Adds a new mapping
    */
@@ -761,7 +847,7 @@ export class TagMappingModal extends Modal {
     // Update plugin settings
     this.plugin.settings.tagMappings = [...this.mappings]
     await this.plugin.saveSettings()
-    this.plugin.iconResolver.clearCache()
+    this.plugin.refreshChangedMappings()
 
     // Show saved indicator
     this.showSavedIndicator()
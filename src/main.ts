@@ -9,15 +9,49 @@
  * 1. IconResolver - determines which icon to display for each file
  * 2. IconRenderer - renders icons in various locations throughout Obsidian
  * 3. SettingsTab - provides the settings UI for configuring the plugin
+ *
+ * It also owns the IconPackManager, which registers custom SVG icons from a
+ * vault folder, and the IconIndex, which persists resolved icons so that they
+ * show immediately at startup. Other plugins and scripts use the public API
+ * exposed as `api` (see SimpleIconsApi).
  */
 
-import { Plugin, TFile } from "obsidian"
+import { debounce, Menu, Notice, Plugin, TFile, TFolder } from "obsidian"
+import { runDiagnostics } from "./Diagnostics"
+import { DiagnosticsModal } from "./DiagnosticsModal"
 import { createEditorExtension, triggerIconRefresh } from "./EditorExtension"
+import { replaceIconAliases } from "./IconAliases"
+import { IconIndex } from "./IconIndex"
+import { IconPackManager } from "./IconPackManager"
+import { IconPickerModal } from "./IconPickerModal"
 import { IconRenderer } from "./IconRenderer"
 import { IconResolver } from "./IconResolver"
+import { IconTraceModal } from "./IconTraceModal"
+import { PropertyMappingModal } from "./PropertyMappingModal"
+import {
+  getFrontmatterValue,
+  getIconProperties,
+  setFrontmatterValue,
+} from "./providers"
+import { RuleBuilderModal } from "./RuleBuilderModal"
 import { SimpleIconsSettingTab } from "./SettingsTab"
+import { ICON_CHANGED_EVENT, SimpleIconsApi, toApiIcon } from "./SimpleIconsApi"
 import { TagMappingModal } from "./TagMappingModal"
-import { DEFAULT_SETTINGS, PluginSettings } from "./types"
+import {
+  DEFAULT_SETTINGS,
+  DiagnosticLocation,
+  FolderIcon,
+  IconChange,
+  PluginSettings,
+} from "./types"
+
+/**
+ * The subset of Obsidian's settings modal used to open the settings tab
+ */
+interface AppSetting {
+  open(): void
+  openTabById(id: string): void
+}
 
 /**
  * Main plugin class for Simple Icons
@@ -30,6 +64,25 @@ export default class SimpleIconsPlugin extends Plugin {
   settings: PluginSettings
   iconResolver: IconResolver
   iconRenderer: IconRenderer
+  iconPacks: IconPackManager
+  iconIndex: IconIndex
+
+  /** Public API for other plugins and scripts */
+  api: SimpleIconsApi
+
+  /**
+   * Reports changed icons once a burst of invalidations is over
+   *
+   * Call after invalidating files in the IconResolver; see checkIconChanges.
+   */
+  requestIconChangeCheck = debounce(() => this.checkIconChanges(), 300, true)
+
+  /** Reloads icon packs once a burst of changes to their files is over */
+  private requestIconPackReload = debounce(
+    () => this.reloadIconPacks(),
+    500,
+    true
+  )
 
   /**
    * Initializes the plugin and sets up all rendering components
@@ -52,6 +105,34 @@ export default class SimpleIconsPlugin extends Plugin {
       this.iconResolver,
       this.settings
     )
+    this.iconPacks = new IconPackManager(this.app, this.settings)
+    this.iconIndex = new IconIndex(
+      this.app,
+      this.iconResolver,
+      this.settings,
+      this.manifest.dir ??
+        `${this.app.vault.configDir}/plugins/${this.manifest.id}`
+    )
+
+    this.api = new SimpleIconsApi(this)
+
+    // Show the icons from the last session until files are resolved again
+    await this.iconIndex.load()
+
+    // Register custom icon packs once the vault's files are known
+    this.app.workspace.onLayoutReady(() => this.reloadIconPacks())
+
+    // Check the persisted icons against the metadata once it is resolved.
+    // When the plugin is enabled later on, the metadata is already resolved.
+    if (this.app.workspace.layoutReady) {
+      this.app.workspace.onLayoutReady(() => this.reconcileIconIndex())
+    } else {
+      const ref = this.app.metadataCache.on("resolved", () => {
+        this.app.metadataCache.offref(ref)
+        this.reconcileIconIndex()
+      })
+      this.registerEvent(ref)
+    }
 
     // Register markdown post processor for wikilinks in reading mode
     this.registerMarkdownPostProcessor((el, ctx) => {
@@ -60,7 +141,7 @@ export default class SimpleIconsPlugin extends Plugin {
 
     // Register editor extension for live preview mode
     this.registerEditorExtension(
-      createEditorExtension(this.app, this.iconResolver)
+      createEditorExtension(this.app, this.iconResolver, this.settings)
     )
 
     // Initialize rendering
@@ -68,45 +149,110 @@ export default class SimpleIconsPlugin extends Plugin {
 
     // Register event listeners for cache invalidation and targeted updates
     this.registerEvent(
-      this.app.metadataCache.on("changed", file => {
+      this.app.metadataCache.on("changed", (file, data) => {
+        // Inline fields are not in the metadata, so parse them from the content
+        this.iconResolver.setFileContent(file, data)
         // Invalidate cache for the changed file
         this.iconResolver.invalidateFile(file)
+        this.iconIndex.requestSave()
+        // Files below a folder note may inherit its icon
+        this.invalidateFolderNote(file.path)
         // Update only this specific file in the UI
         if (file instanceof TFile) {
           this.iconRenderer.updateSingleFileIcon(file)
           // Trigger editor view updates for live preview wikilinks
           triggerIconRefresh(this.app)
+          this.requestIconChangeCheck()
+        }
+      })
+    )
+
+    // Re-register icon packs when their SVG files change
+    this.registerEvent(
+      this.app.vault.on("modify", file => {
+        if (this.iconPacks.isIconPackFile(file.path)) {
+          this.requestIconPackReload()
         }
       })
     )
 
     this.registerEvent(
       this.app.vault.on("rename", (file, oldPath) => {
+        if (
+          this.iconPacks.isIconPackFile(file.path) ||
+          this.iconPacks.isIconPackFile(oldPath)
+        ) {
+          this.requestIconPackReload()
+        }
+
         if (file instanceof TFile) {
           // Invalidate cache for renamed file
-          this.iconResolver.invalidateFile(file)
+          this.iconResolver.invalidateRenamedFile(file, oldPath)
+          this.iconIndex.requestSave()
+          // A folder note may have been renamed to or from its folder's note
+          this.invalidateFolderNote(oldPath)
+          this.invalidateFolderNote(file.path)
           // Update the file in UI
           this.iconRenderer.updateSingleFileIcon(file)
+          this.requestIconChangeCheck()
+        } else if (file instanceof TFolder) {
+          // Folder icons follow their folder (and subfolders) to the new path
+          this.moveFolderIcons(oldPath, file.path).catch(e =>
+            console.error("Simple Icons: could not move folder icons", e)
+          )
+          // Renaming a folder changes which notes count as its folder note
+          if (this.settings.enableFolderNotes) {
+            this.iconResolver.invalidateFolder(file.path)
+            this.iconRenderer.updateAllIcons()
+          }
         }
       })
     )
 
     this.registerEvent(
       this.app.vault.on("delete", file => {
+        if (this.iconPacks.isIconPackFile(file.path)) {
+          this.requestIconPackReload()
+        }
+
         if (file instanceof TFile) {
           // Invalidate cache for deleted file
           this.iconResolver.invalidateFile(file)
-          // No need to update UI - file is deleted
+          this.iconResolver.setFileContent(file, null)
+          this.iconIndex.requestSave()
+          // No need to update UI - file is deleted, unless it was a folder note
+          this.invalidateFolderNote(file.path)
+          this.refreshUnresolvedLinks()
+        } else if (file instanceof TFolder) {
+          // Drop icons set on the deleted folder and its subfolders
+          this.moveFolderIcons(file.path, null).catch(e =>
+            console.error("Simple Icons: could not drop folder icons", e)
+          )
         }
       })
     )
 
     this.registerEvent(
       this.app.vault.on("create", file => {
+        if (this.iconPacks.isIconPackFile(file.path)) {
+          this.requestIconPackReload()
+        }
+
         if (file instanceof TFile) {
           // New files will be picked up by the MutationObserver
           // Just invalidate to ensure fresh lookup
           this.iconResolver.invalidateFile(file)
+          this.invalidateFolderNote(file.path)
+          this.refreshUnresolvedLinks()
+        }
+      })
+    )
+
+    // Add folder icon actions to the file explorer context menu
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        if (file instanceof TFolder && !file.isRoot()) {
+          this.addFolderIconMenuItems(menu, file)
         }
       })
     )
@@ -123,25 +269,476 @@ export default class SimpleIconsPlugin extends Plugin {
         modal.open()
       },
     })
+
+    this.addCommand({
+      id: "manage-property-mappings",
+      name: "Simple Icons: Manage Property Mappings",
+      callback: () => {
+        const modal = new PropertyMappingModal(this.app, this)
+        modal.open()
+      },
+    })
+
+    this.addCommand({
+      id: "manage-rules",
+      name: "Simple Icons: Manage Rules",
+      callback: () => {
+        const modal = new RuleBuilderModal(this.app, this)
+        modal.open()
+      },
+    })
+
+    this.addCommand({
+      id: "explain-icon",
+      name: "Simple Icons: Explain icon for current file",
+      checkCallback: checking => {
+        const file = this.app.workspace.getActiveFile()
+        if (!file) return false
+
+        if (!checking) {
+          const trace = this.iconResolver.explainIconForFile(file)
+          new IconTraceModal(this.app, trace).open()
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: "manage-badge-rules",
+      name: "Simple Icons: Manage Badge Rules",
+      callback: () => {
+        const modal = new RuleBuilderModal(this.app, this, "badgeRules")
+        modal.open()
+      },
+    })
+
+    this.addCommand({
+      id: "replace-icon-aliases",
+      name: "Simple Icons: Replace icon aliases in frontmatter",
+      callback: async () => {
+        const count = await this.replaceIconAliases()
+        new Notice(
+          count > 0
+            ? `Replaced icon aliases in ${count} note(s)`
+            : "No icon aliases found in frontmatter"
+        )
+      },
+    })
+
+    this.addCommand({
+      id: "diagnose",
+      name: "Simple Icons: Diagnose",
+      callback: async () => {
+        const diagnostics = await runDiagnostics(
+          this.app,
+          this.iconResolver,
+          this.settings
+        )
+        new DiagnosticsModal(this.app, diagnostics, location =>
+          this.openDiagnosticLocation(location)
+        ).open()
+      },
+    })
+  }
+
+  /**
+   * Replaces icon aliases in frontmatter with the icons they stand for
+   *
+   * Checks the icon properties (see getIconProperties) of every note,
+   * including the entries of list properties, and only rewrites the notes
+   * that contain an alias.
+   *
+   * @returns The number of notes changed
+   */
+  async replaceIconAliases(): Promise<number> {
+    const properties = getIconProperties(this.settings)
+    let count = 0
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter
+      if (!frontmatter) continue
+
+      const replacements = new Map<string, unknown>()
+      for (const property of properties) {
+        const value = getFrontmatterValue(frontmatter, property)
+        const replaced = replaceIconAliases(value, this.settings)
+        if (JSON.stringify(replaced) !== JSON.stringify(value)) {
+          replacements.set(property, replaced)
+        }
+      }
+      if (replacements.size === 0) continue
+
+      await this.app.fileManager.processFrontMatter(file, frontmatter => {
+        replacements.forEach((value, property) =>
+          setFrontmatterValue(frontmatter, property, value)
+        )
+      })
+      count++
+    }
+
+    return count
+  }
+
+  /**
+   * Opens the file or setting a diagnostic was found in
+   *
+   * Tag mappings, property mappings, and rules open in their modals; other
+   * settings open the plugin's settings tab.
+   *
+   * @param location - Where the problem was found
+   */
+  private openDiagnosticLocation(location: DiagnosticLocation): void {
+    if (location.type === "file") {
+      const file = this.app.vault.getAbstractFileByPath(location.path)
+      if (file instanceof TFile) {
+        this.app.workspace.getLeaf(false).openFile(file)
+      }
+      return
+    }
+
+    switch (location.setting) {
+      case "tagMappings":
+        new TagMappingModal(this.app, this).open()
+        break
+      case "propertyMappings":
+        new PropertyMappingModal(this.app, this).open()
+        break
+      case "rules":
+      case "badgeRules":
+        new RuleBuilderModal(this.app, this, location.setting).open()
+        break
+      default: {
+        // The settings modal is not part of the public API
+        const { setting } = this.app as unknown as { setting?: AppSetting }
+        setting?.open()
+        setting?.openTabById(this.manifest.id)
+      }
+    }
+  }
+
+  /**
+   * Resolves and re-renders all icons after a settings change
+   *
+   * Called after every edit to settings that may change the icon of any
+   * file, such as sources, aliases, rules, and property mappings. The cache
+   * is cleared and every visible icon is drawn again, so the change shows
+   * instantly in every location, including live preview.
+   */
+  refreshAllIcons(): void {
+    this.iconResolver.clearCache()
+    this.iconRenderer.updateAllIcons()
+    triggerIconRefresh(this.app)
+    this.requestIconChangeCheck()
+  }
+
+  /**
+   * Re-renders the icons affected by edited tag or folder mappings
+   *
+   * Called after every edit to the mappings. Only the files carrying an
+   * edited tag or matching an edited folder path are resolved again (see
+   * IconResolver.invalidateChangedMappings), so the change shows instantly
+   * in every location, including live preview.
+   */
+  refreshChangedMappings(): void {
+    const files = this.iconResolver.invalidateChangedMappings()
+    this.iconRenderer.updateFileIcons(files)
+    triggerIconRefresh(this.app)
+    this.requestIconChangeCheck()
+  }
+
+  /**
+   * Resolves invalidated files again and reports the icons that changed
+   *
+   * See IconResolver.collectIconChanges: only files whose resolved icon
+   * differs from the one they had before being invalidated are reported.
+   */
+  private async checkIconChanges(): Promise<void> {
+    this.triggerIconChanges(await this.iconResolver.collectIconChanges())
+  }
+
+  /**
+   * Triggers ICON_CHANGED_EVENT on the workspace for each changed icon
+   *
+   * Other plugins listen to the event directly, or through the API's
+   * onIconChange. Icons are passed in the public ApiIcon shape.
+   *
+   * @param changes - The changed icons
+   */
+  private triggerIconChanges(changes: IconChange[]): void {
+    for (const { file, oldIcon, newIcon } of changes) {
+      this.app.workspace.trigger(
+        ICON_CHANGED_EVENT,
+        file,
+        toApiIcon(oldIcon),
+        toApiIcon(newIcon)
+      )
+    }
+  }
+
+  /**
+   * Invalidates and re-renders the files below a folder note
+   *
+   * Does nothing unless the path is a folder note (see
+   * IconResolver.getFolderNoteFolder), so it is cheap to call on every change.
+   *
+   * @param path - The path of the changed, created, renamed, or deleted file
+   */
+  private invalidateFolderNote(path: string): void {
+    const folderPath = this.iconResolver.getFolderNoteFolder(path)
+    if (folderPath === null) return
+
+    this.iconResolver.invalidateFolder(folderPath)
+    this.iconRenderer.updateAllIcons()
+    triggerIconRefresh(this.app)
+    this.requestIconChangeCheck()
+  }
+
+  /**
+   * Refreshes live preview link icons after a file is created or deleted
+   *
+   * Creating or deleting a file turns links to it from unresolved into
+   * resolved or back, which changes their icon when unresolved link icons
+   * are enabled.
+   */
+  private refreshUnresolvedLinks(): void {
+    if (this.settings.enableUnresolvedLinkIcon) {
+      triggerIconRefresh(this.app)
+    }
+  }
+
+  /**
+   * Adds the folder icon actions to a folder's context menu
+   *
+   * @param menu - The context menu being opened
+   * @param folder - The folder the menu was opened on
+   */
+  private addFolderIconMenuItems(menu: Menu, folder: TFolder): void {
+    const current = this.settings.folderIcons.find(
+      entry => entry.path === folder.path
+    )
+
+    menu.addItem(item =>
+      item
+        .setTitle("Set folder icon")
+        .setIcon("image")
+        .onClick(() =>
+          new IconPickerModal(this.app, this.iconResolver, icon =>
+            this.setFolderIcon(folder.path, { icon })
+          ).open()
+        )
+    )
+
+    if (!current) return
+
+    menu.addItem(item =>
+      item
+        .setTitle("Set open folder icon")
+        .setIcon("folder-open")
+        .onClick(() =>
+          new IconPickerModal(this.app, this.iconResolver, openIcon =>
+            this.setFolderIcon(folder.path, { openIcon })
+          ).open()
+        )
+    )
+
+    menu.addItem(item =>
+      item
+        .setTitle("Remove folder icon")
+        .setIcon("x")
+        .onClick(() => this.setFolderIcon(folder.path, null))
+    )
+  }
+
+  /**
+   * Sets, updates, or removes the icon set directly on a folder
+   *
+   * @param path - The folder path
+   * @param changes - The icon properties to set, or null to remove the icon
+   */
+  async setFolderIcon(
+    path: string,
+    changes: Partial<Omit<FolderIcon, "path">> | null
+  ): Promise<void> {
+    const icons = this.settings.folderIcons
+    const index = icons.findIndex(entry => entry.path === path)
+
+    if (changes === null) {
+      if (index === -1) return
+      icons.splice(index, 1)
+    } else if (index === -1) {
+      icons.push({ path, icon: "", ...changes })
+    } else {
+      icons[index] = { ...icons[index], ...changes }
+    }
+
+    await this.saveSettings()
+    this.refreshAllIcons()
+  }
+
+  /**
+   * Moves folder icons after a folder is renamed, or drops them on delete
+   *
+   * Icons set on subfolders of the folder are moved (or dropped) as well.
+   *
+   * @param oldPath - The previous folder path
+   * @param newPath - The new folder path, or null if the folder was deleted
+   */
+  private async moveFolderIcons(
+    oldPath: string,
+    newPath: string | null
+  ): Promise<void> {
+    const isAffected = (path: string) =>
+      path === oldPath || path.startsWith(oldPath + "/")
+    if (!this.settings.folderIcons.some(entry => isAffected(entry.path))) {
+      return
+    }
+
+    this.settings.folderIcons =
+      newPath === null
+        ? this.settings.folderIcons.filter(entry => !isAffected(entry.path))
+        : this.settings.folderIcons.map(entry =>
+            isAffected(entry.path)
+              ? { ...entry, path: newPath + entry.path.slice(oldPath.length) }
+              : entry
+          )
+
+    await this.saveSettings()
+    this.refreshAllIcons()
   }
 
   /**
    * Cleans up the plugin when it is unloaded
    *
-   * Disconnects all observers and listeners to prevent memory leaks.
+   * Disconnects all observers and listeners to prevent memory leaks, and
+   * saves the icon index one last time.
    */
   onunload() {
+    // Pending checks and saves must not run once the plugin is disabled
+    this.requestIconChangeCheck.cancel()
+    this.iconIndex.requestSave.cancel()
     this.iconRenderer.onunload()
+    this.iconPacks.unload()
+    this.iconIndex
+      .save()
+      .catch(e =>
+        console.warn("Simple Icons: could not save the icon index", e)
+      )
+  }
+
+  /**
+   * Resolves all files again and re-renders icons that changed
+   *
+   * Icons seeded from the persisted index may be outdated when files changed
+   * while the plugin was not running, e.g. through sync.
+   */
+  private async reconcileIconIndex(): Promise<void> {
+    // Inline fields are not in the metadata, so they must be read first
+    await this.loadInlineFields()
+
+    const changes = await this.iconIndex.reconcile()
+    if (changes.length > 0) {
+      this.iconRenderer.updateAllIcons()
+      triggerIconRefresh(this.app)
+      this.triggerIconChanges(changes)
+    }
+  }
+
+  /**
+   * Reads the inline fields of notes whose content has not been read yet
+   *
+   * Obsidian only reports the content of notes that change, so the inline
+   * field source reads all other notes once: at startup and when the source
+   * is turned on. Notes with inline icon fields are re-rendered.
+   */
+  async loadInlineFields(): Promise<void> {
+    if (!this.settings.enableInlineFields) return
+
+    const changed: TFile[] = []
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (this.iconResolver.hasFileContent(file)) continue
+
+      const content = await this.app.vault.cachedRead(file)
+      if (this.iconResolver.setFileContent(file, content)) {
+        this.iconResolver.invalidateFile(file)
+        changed.push(file)
+      }
+    }
+
+    if (changed.length > 0) {
+      this.iconRenderer.updateFileIcons(changed)
+      triggerIconRefresh(this.app)
+      this.requestIconChangeCheck()
+    }
+  }
+
+  /**
+   * Re-registers the custom icon packs and refreshes visible icons
+   *
+   * Called at startup, when the icon pack folder setting changes, and when
+   * SVG files in the folder are added, changed, renamed, or deleted. The
+   * icon cache is only invalidated when icons were added or removed, and
+   * then only for the files that may use them (see
+   * IconResolver.invalidatePackIcons).
+   *
+   * @returns The number of registered custom icons
+   */
+  async reloadIconPacks(): Promise<number> {
+    const previousIds = this.iconPacks.getIconIds()
+    const count = await this.iconPacks.load()
+    const iconIds = this.iconPacks.getIconIds()
+    const changedIds = [
+      ...previousIds.filter(id => !iconIds.includes(id)),
+      ...iconIds.filter(id => !previousIds.includes(id)),
+    ]
+    if (changedIds.length === 0) {
+      // The cached icons (including those seeded from the index) are still
+      // valid, but edited SVG files must be drawn again
+      if (count > 0) {
+        this.iconRenderer.updateAllIcons()
+        triggerIconRefresh(this.app)
+      }
+      return count
+    }
+
+    const files = this.iconResolver.invalidatePackIcons(changedIds)
+    if (files) {
+      this.iconRenderer.updateFileIcons(files)
+    } else {
+      this.iconRenderer.updateAllIcons()
+    }
+    triggerIconRefresh(this.app)
+    this.requestIconChangeCheck()
+    return count
   }
 
   /**
    * Loads settings from Obsidian's data storage
    *
    * Merges saved settings with the default settings, ensuring all required
-   * properties are present even if settings are missing or incomplete.
+   * properties are present even if settings are missing or incomplete. The
+   * defaults are copied, so that editing a default list (e.g. adding a folder
+   * icon) doesn't change DEFAULT_SETTINGS.
+   * Settings saved before icons could be read from several frontmatter
+   * properties have their single property name converted to a list.
+   * Settings saved before extension mappings existed keep them turned off,
+   * so that attachments in mapped folders keep their folder icon.
    */
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData())
+    const saved = await this.loadData()
+    const { frontmatterProperty, ...data } = saved ?? {}
+    const defaults: PluginSettings = JSON.parse(
+      JSON.stringify(DEFAULT_SETTINGS)
+    )
+    this.settings = Object.assign(defaults, data)
+    if (saved && data.enableExtensions === undefined) {
+      this.settings.enableExtensions = false
+    }
+    if (
+      typeof frontmatterProperty === "string" &&
+      !data.frontmatterProperties
+    ) {
+      this.settings.frontmatterProperties = [frontmatterProperty]
+    }
   }
 
   /**
@@ -151,6 +748,10 @@ export default class SimpleIconsPlugin extends Plugin {
    */
   async saveSettings() {
     await this.saveData(this.settings)
+    // Icons in the index were resolved with the previous settings
+    this.iconIndex.requestSave()
+    // Settings edits clear the cache, which may change icons
+    this.requestIconChangeCheck()
   }
 
   /**
@@ -0,0 +1,93 @@
+/**
+ * ExtensionMatcher.ts
+ *
+ * This file provides the file extension matching logic used by extension
+ * mappings and rule conditions. An extension pattern is a list of entries
+ * separated by "|" (or commas/spaces), where each entry is one of:
+ *
+ * - An extension: pdf, .png
+ * - A compound extension matched against the end of the file name:
+ *   excalidraw.md
+ * - A MIME family covering all extensions of that kind: image/*, audio/*,
+ *   video/*
+ *
+ * It also defines the built-in extension mappings that give attachments an
+ * icon without any configuration.
+ */
+
+import { ExtensionMapping } from "../types"
+
+/**
+ * Extensions belonging to each supported MIME family
+ */
+const MIME_FAMILIES: Record<string, string[]> = {
+  image: [
+    "avif",
+    "bmp",
+    "gif",
+    "heic",
+    "ico",
+    "jpeg",
+    "jpg",
+    "png",
+    "svg",
+    "tif",
+    "tiff",
+    "webp",
+  ],
+  audio: ["3gp", "aac", "flac", "m4a", "mp3", "oga", "ogg", "opus", "wav"],
+  video: ["avi", "mkv", "mov", "mp4", "ogv", "webm"],
+}
+
+/**
+ * Built-in extension mappings, checked after the user's own mappings
+ *
+ * Users override an entry by adding a mapping for the same extension.
+ */
+export const BUILT_IN_EXTENSION_MAPPINGS: ExtensionMapping[] = [
+  { extension: "excalidraw|excalidraw.md", icon: "pen-tool" },
+  { extension: "canvas", icon: "layout-dashboard" },
+  { extension: "base", icon: "table" },
+  { extension: "pdf", icon: "file-text" },
+  { extension: "image/*", icon: "image" },
+  { extension: "audio/*", icon: "music" },
+  { extension: "video/*", icon: "film" },
+]
+
+/**
+ * Splits an extension list such as "png|jpg" or ".png, .jpg" into entries
+ *
+ * @param extensions - The extension list as entered by the user
+ * @returns Lowercased entries without leading dots
+ */
+export function parseExtensionList(extensions: string): string[] {
+  return extensions
+    .split(/[|,\s]+/)
+    .map(ext => ext.trim().replace(/^\./, "").toLowerCase())
+    .filter(ext => ext !== "")
+}
+
+/**
+ * Checks whether a file matches an extension pattern
+ *
+ * @param file - The file name and extension to test
+ * @param extensions - The extension pattern (see file comment for syntax)
+ * @returns True if any entry of the pattern matches the file
+ */
+export function matchExtension(
+  file: { name: string; extension: string },
+  extensions: string
+): boolean {
+  const extension = file.extension.toLowerCase()
+  const name = file.name.toLowerCase()
+
+  return parseExtensionList(extensions).some(entry => {
+    if (entry.endsWith("/*")) {
+      return MIME_FAMILIES[entry.slice(0, -2)]?.includes(extension) ?? false
+    }
+    if (entry.includes(".")) {
+      return name.endsWith(`.${entry}`)
+    }
+    return entry === extension
+  })
+}
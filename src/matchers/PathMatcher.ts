@@ -0,0 +1,265 @@
+/**
+ * PathMatcher.ts
+ *
+ * This file provides the path matching logic used by folder mappings. A folder
+ * mapping path can be written in three ways:
+ *
+ * 1. Plain folder path (e.g. "projects/work") - matches files inside that
+ *    folder on exact segment boundaries, so "proj" does not match "projects/"
+ * 2. Glob pattern (e.g. "**\/meetings/*.md", "journal/2024-*") - detected by
+ *    the presence of glob characters (* ? [ ] { }). Since "[ ] { }" are legal
+ *    in folder names, such a path is first matched literally
+ * 3. Regular expression - when the mapping is flagged as regex, the pattern is
+ *    tested against the full file path
+ *
+ * Every match carries a specificity score so that the most specific mapping
+ * can win when several mappings apply to the same file.
+ */
+
+/**
+ * Minimal description of a path pattern to match against
+ */
+export interface PathPattern {
+  /** The folder path, glob pattern, or regular expression */
+  path: string
+  /** Whether the path should be interpreted as a regular expression */
+  regex?: boolean
+}
+
+/**
+ * The result of a successful path match
+ */
+export interface PathMatch {
+  /** Higher values indicate a more specific pattern */
+  specificity: number
+  /** Whether the pattern matched the file itself rather than an ancestor folder */
+  fileLevel: boolean
+}
+
+/** Compiled regular expressions keyed by pattern source (null if invalid) */
+const compiledPatterns = new Map<string, RegExp | null>()
+
+/**
+ * Normalizes a vault path by trimming whitespace and leading/trailing slashes
+ *
+ * @param path - The path as entered by the user
+ * @returns The normalized path
+ */
+export function normalizePath(path: string): string {
+  return path.trim().replace(/^\/+/, "").replace(/\/+$/, "")
+}
+
+/**
+ * Checks whether a path contains glob characters
+ *
+ * @param path - The path to check
+ * @returns True if the path should be treated as a glob pattern
+ */
+export function isGlobPattern(path: string): boolean {
+  return /[*?[\]{}]/.test(path)
+}
+
+/**
+ * Converts a glob pattern into an anchored regular expression source
+ *
+ * Supported syntax:
+ * - "**" matches any number of path segments (including none)
+ * - "*" matches any characters within a single segment
+ * - "?" matches a single character within a segment
+ * - "[abc]" / "[a-z]" / "[!abc]" match character classes
+ * - "{a,b}" matches one of several alternatives
+ *
+ * @param glob - The normalized glob pattern
+ * @returns The regular expression source for the pattern
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = ""
+  let inGroup = false
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more whole segments, trailing "**" matches the rest
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?"
+          i += 2
+        } else {
+          source += ".*"
+          i += 1
+        }
+      } else {
+        source += "[^/]*"
+      }
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1)
+      if (end === -1) {
+        source += "\\["
+      } else {
+        let cls = glob.substring(i + 1, end).replace(/\\/g, "\\\\")
+        if (cls.startsWith("!")) cls = "^" + cls.substring(1)
+        source += `[${cls}]`
+        i = end
+      }
+    } else if (char === "{") {
+      inGroup = true
+      source += "(?:"
+    } else if (char === "}" && inGroup) {
+      inGroup = false
+      source += ")"
+    } else if (char === "," && inGroup) {
+      source += "|"
+    } else {
+      source += char.replace(/[.+^$()|\\\]]/g, "\\$&")
+    }
+  }
+
+  return `^${source}$`
+}
+
+/**
+ * Returns a cached compiled regular expression for a pattern
+ *
+ * @param pattern - The pattern to compile
+ * @returns The compiled expression, or null if the pattern is invalid
+ */
+function compile(pattern: PathPattern): RegExp | null {
+  const key = `${pattern.regex ? "re" : "glob"}:${pattern.path}`
+  const cached = compiledPatterns.get(key)
+  if (cached !== undefined) return cached
+
+  let compiled: RegExp | null
+  try {
+    compiled = pattern.regex
+      ? new RegExp(pattern.path.trim())
+      : new RegExp(globToRegExpSource(normalizePath(pattern.path)))
+  } catch (e) {
+    compiled = null
+  }
+
+  compiledPatterns.set(key, compiled)
+  return compiled
+}
+
+/**
+ * Checks whether a regex pattern is valid
+ *
+ * @param pattern - The regular expression source
+ * @returns True if the pattern compiles
+ */
+export function isValidRegex(pattern: string): boolean {
+  return compile({ path: pattern, regex: true }) !== null
+}
+
+/**
+ * Scores how specific a pattern is
+ *
+ * Each fully literal path segment scores 2, each segment that mixes literal
+ * text with wildcards scores 1, and "**" segments score nothing. Regular
+ * expressions cannot be analyzed and score 1 per "/"-separated part.
+ *
+ * @param pattern - The pattern to score
+ * @returns The specificity score
+ */
+function getSpecificity(pattern: PathPattern): number {
+  if (pattern.regex) {
+    return pattern.path.split("/").length
+  }
+
+  const path = normalizePath(pattern.path)
+  if (path === "") return 0
+
+  return path.split("/").reduce((score, segment) => {
+    if (segment === "**") return score
+    return score + (isGlobPattern(segment) ? 1 : 2)
+  }, 0)
+}
+
+/**
+ * Returns the ancestor folder paths of a file path, deepest first
+ *
+ * @param filePath - The vault-relative file path
+ * @returns The ancestor folder paths (e.g. ["a/b", "a"] for "a/b/c.md")
+ */
+function getAncestorPaths(filePath: string): string[] {
+  const segments = filePath.split("/")
+  const ancestors: string[] = []
+  for (let i = segments.length - 1; i > 0; i--) {
+    ancestors.push(segments.slice(0, i).join("/"))
+  }
+  return ancestors
+}
+
+/**
+ * Matches a vault path against a plain folder path
+ *
+ * @param filePath - The vault-relative path of the file or folder
+ * @param path - The normalized folder path
+ * @returns The match details, or null if the path does not match
+ */
+function matchLiteralPath(filePath: string, path: string): PathMatch | null {
+  // Every segment is literal here, even if it contains glob characters
+  const specificity = path === "" ? 0 : path.split("/").length * 2
+  if (path === "") return { specificity, fileLevel: false }
+  if (filePath === path) return { specificity, fileLevel: true }
+  return filePath.startsWith(path + "/")
+    ? { specificity, fileLevel: false }
+    : null
+}
+
+/**
+ * Matches a vault path against a folder mapping pattern
+ *
+ * Plain folder paths match the path itself or anything inside it, respecting
+ * segment boundaries. An empty path refers to the vault root and matches
+ * everything. Glob patterns match the path itself or any ancestor folder, so
+ * "**\/meetings" applies to every file inside any "meetings" folder. A glob
+ * pattern that names an existing path literally (e.g. a "[Archive]" folder)
+ * matches it like a plain path. Regular expressions are tested against the
+ * full path.
+ *
+ * @param filePath - The vault-relative path of the file or folder
+ * @param pattern - The folder mapping pattern
+ * @returns The match details, or null if the pattern does not match
+ */
+export function matchPath(
+  filePath: string,
+  pattern: PathPattern
+): PathMatch | null {
+  const specificity = getSpecificity(pattern)
+
+  if (pattern.regex) {
+    const regex = compile(pattern)
+    if (!regex || pattern.path.trim() === "") return null
+    return regex.test(filePath) ? { specificity, fileLevel: true } : null
+  }
+
+  const path = normalizePath(pattern.path)
+  const literalMatch = matchLiteralPath(filePath, path)
+  if (literalMatch || !isGlobPattern(path)) return literalMatch
+
+  const regex = compile(pattern)
+  if (!regex) return null
+  if (regex.test(filePath)) return { specificity, fileLevel: true }
+
+  return getAncestorPaths(filePath).some(ancestor => regex.test(ancestor))
+    ? { specificity, fileLevel: false }
+    : null
+}
+
+/**
+ * Compares two path matches by specificity
+ *
+ * @param a - The first match
+ * @param b - The second match
+ * @returns A positive number if a is more specific, negative if b is, else 0
+ */
+export function comparePathMatches(a: PathMatch, b: PathMatch): number {
+  if (a.specificity !== b.specificity) {
+    return a.specificity - b.specificity
+  }
+  return Number(a.fileLevel) - Number(b.fileLevel)
+}
@@ -0,0 +1,200 @@
+/**
+ * PropertyMatcher.ts
+ *
+ * This file provides the frontmatter property matching logic used by property
+ * mappings. A property condition compares the value of a frontmatter property
+ * with an expected value using an operator, for example:
+ *
+ * - status = done
+ * - type = person
+ * - priority >= 3
+ * - tags contains meeting
+ *
+ * Values are compared case-insensitively. List properties match when any of
+ * their entries match. Numeric operators compare numbers, and fall back to
+ * comparing ISO dates (YYYY-MM-DD) as text when both sides are dates.
+ */
+
+import { FrontMatterCache } from "obsidian"
+import { PropertyCondition, PropertyOperator } from "../types"
+
+/**
+ * Display labels for each property operator, in the order shown in the UI
+ */
+export const PROPERTY_OPERATOR_LABELS: Record<PropertyOperator, string> = {
+  equals: "=",
+  "not-equals": "≠",
+  contains: "contains",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  exists: "exists",
+  "not-exists": "is empty",
+}
+
+/**
+ * Checks whether an operator needs a comparison value
+ *
+ * @param operator - The operator to check
+ * @returns False for exists/not-exists, true otherwise
+ */
+export function operatorTakesValue(operator: PropertyOperator): boolean {
+  return operator !== "exists" && operator !== "not-exists"
+}
+
+/**
+ * Looks up a frontmatter property, falling back to a case-insensitive match
+ *
+ * @param frontmatter - The file's frontmatter
+ * @param property - The property name
+ * @returns The property value, or undefined if not present
+ */
+export function getPropertyValue(
+  frontmatter: FrontMatterCache | undefined,
+  property: string
+): unknown {
+  if (!frontmatter) return undefined
+
+  const name = property.trim()
+  if (name in frontmatter) return frontmatter[name]
+
+  const lowerName = name.toLowerCase()
+  const key = Object.keys(frontmatter).find(k => k.toLowerCase() === lowerName)
+  return key !== undefined ? frontmatter[key] : undefined
+}
+
+/**
+ * Checks whether a property value counts as empty
+ *
+ * @param value - The property value
+ * @returns True for missing values, empty strings, and empty lists
+ */
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null) return true
+  if (typeof value === "string") return value.trim() === ""
+  if (Array.isArray(value)) return value.every(isEmptyValue)
+  return false
+}
+
+/**
+ * Converts a scalar property value into comparable text
+ *
+ * Wikilink values such as "[[Person|alias]]" compare by their link target.
+ *
+ * @param value - The property value
+ * @returns Trimmed, lowercased text
+ */
+function toText(value: unknown): string {
+  return String(value)
+    .trim()
+    .replace(/^\[\[([^|\]]*)(\|[^\]]*)?\]\]$/, "$1")
+    .toLowerCase()
+}
+
+/**
+ * Converts a value to a number if it is numeric
+ *
+ * @param value - The property value or expected value
+ * @returns The number, or null if not numeric
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return isFinite(value) ? value : null
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.trim())
+    return isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+/**
+ * Compares a scalar property value with an expected value for ordering
+ *
+ * @param actual - The property value
+ * @param expected - The expected value from the condition
+ * @returns Negative, zero, or positive like a sort comparator, or null if
+ *   the values cannot be ordered
+ */
+function compareOrdered(actual: unknown, expected: string): number | null {
+  const actualNumber = toNumber(actual)
+  const expectedNumber = toNumber(expected)
+  if (actualNumber !== null && expectedNumber !== null) {
+    return actualNumber - expectedNumber
+  }
+
+  const isoDate = /^\d{4}-\d{2}-\d{2}/
+  const actualText = String(actual).trim()
+  const expectedText = expected.trim()
+  if (isoDate.test(actualText) && isoDate.test(expectedText)) {
+    return actualText.localeCompare(expectedText)
+  }
+
+  return null
+}
+
+/**
+ * Tests a single scalar property value against a condition
+ *
+ * @param actual - A scalar property value (not a list)
+ * @param operator - The comparison operator
+ * @param expected - The expected value
+ * @returns True if the value satisfies the condition
+ */
+function matchScalar(
+  actual: unknown,
+  operator: PropertyOperator,
+  expected: string
+): boolean {
+  if (actual === undefined || actual === null) return false
+
+  switch (operator) {
+    case "equals":
+      return toText(actual) === toText(expected)
+    case "contains":
+      return toText(actual).includes(toText(expected))
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      const order = compareOrdered(actual, expected)
+      if (order === null) return false
+      if (operator === "gt") return order > 0
+      if (operator === "gte") return order >= 0
+      if (operator === "lt") return order < 0
+      return order <= 0
+    }
+    default:
+      return false
+  }
+}
+
+/**
+ * Checks whether a file's frontmatter satisfies a property condition
+ *
+ * @param frontmatter - The file's frontmatter
+ * @param condition - The condition to test
+ * @returns True if the condition is satisfied
+ */
+export function matchProperty(
+  frontmatter: FrontMatterCache | undefined,
+  condition: PropertyCondition
+): boolean {
+  if (condition.property.trim() === "") return false
+
+  const value = getPropertyValue(frontmatter, condition.property)
+
+  switch (condition.operator) {
+    case "exists":
+      return !isEmptyValue(value)
+    case "not-exists":
+      return isEmptyValue(value)
+    case "not-equals":
+      return !matchProperty(frontmatter, { ...condition, operator: "equals" })
+    default: {
+      const values = Array.isArray(value) ? value : [value]
+      return values.some(v =>
+        matchScalar(v, condition.operator, condition.value)
+      )
+    }
+  }
+}
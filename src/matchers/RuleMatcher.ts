@@ -0,0 +1,166 @@
+/**
+ * RuleMatcher.ts
+ *
+ * This file provides the evaluation logic for compound icon rules. A rule
+ * condition is a tree of groups (AND / OR) and leaf conditions over tags,
+ * folder paths, frontmatter properties, file extensions, and file names. Any
+ * condition can be negated (NOT). Leaf conditions reuse the tag, path, and
+ * property matchers so that rules behave exactly like the simple mappings.
+ */
+
+import { CachedMetadata, FrontMatterCache, TFile } from "obsidian"
+import { RuleCondition } from "../types"
+import { matchExtension } from "./ExtensionMatcher"
+import { globToRegExpSource, isGlobPattern, matchPath } from "./PathMatcher"
+import { matchProperty } from "./PropertyMatcher"
+import { anyTagMatches, collectFileTags } from "./TagMatcher"
+
+/**
+ * The file information rule conditions are evaluated against
+ */
+export interface RuleContext {
+  /** The vault-relative file path */
+  path: string
+  /** The file name including extension */
+  name: string
+  /** The file name without extension */
+  basename: string
+  /** The lowercased file extension without dot */
+  extension: string
+  /** The file's frontmatter, if any */
+  frontmatter: FrontMatterCache | undefined
+  /** The file's normalized tags */
+  tags: string[]
+}
+
+/** Compiled file name patterns keyed by pattern source (null if invalid) */
+const namePatterns = new Map<string, RegExp | null>()
+
+/**
+ * Builds the rule context for a file
+ *
+ * @param file - The file being resolved
+ * @param metadata - The cached metadata for the file, if any
+ * @returns The rule context
+ */
+export function createRuleContext(
+  file: TFile,
+  metadata: CachedMetadata | null
+): RuleContext {
+  return {
+    path: file.path,
+    name: file.name,
+    basename: file.basename,
+    extension: file.extension.toLowerCase(),
+    frontmatter: metadata?.frontmatter,
+    tags: metadata ? collectFileTags(metadata) : [],
+  }
+}
+
+/**
+ * Returns a cached compiled expression for a file name pattern
+ *
+ * @param pattern - The glob pattern or regular expression
+ * @param regex - Whether the pattern is a regular expression
+ * @returns The compiled expression, or null if invalid
+ */
+function compileNamePattern(pattern: string, regex: boolean): RegExp | null {
+  const key = `${regex ? "re" : "glob"}:${pattern}`
+  const cached = namePatterns.get(key)
+  if (cached !== undefined) return cached
+
+  let compiled: RegExp | null
+  try {
+    compiled = regex
+      ? new RegExp(pattern)
+      : new RegExp(globToRegExpSource(pattern), "i")
+  } catch (e) {
+    compiled = null
+  }
+
+  namePatterns.set(key, compiled)
+  return compiled
+}
+
+/**
+ * Checks whether a file name matches a name pattern
+ *
+ * Plain names compare case-insensitively; glob patterns and regular
+ * expressions are tested against the name both with and without extension.
+ * A glob pattern that equals the name literally matches as well.
+ *
+ * @param context - The rule context
+ * @param pattern - The name pattern
+ * @param regex - Whether the pattern is a regular expression
+ * @returns True if the name matches
+ */
+function matchName(
+  context: RuleContext,
+  pattern: string,
+  regex: boolean
+): boolean {
+  const trimmed = pattern.trim()
+  if (trimmed === "") return false
+
+  if (!regex) {
+    // Names may contain glob characters, so try a literal match first
+    const lower = trimmed.toLowerCase()
+    const literalMatch =
+      context.name.toLowerCase() === lower ||
+      context.basename.toLowerCase() === lower
+    if (literalMatch || !isGlobPattern(trimmed)) return literalMatch
+  }
+
+  const compiled = compileNamePattern(trimmed, regex)
+  if (!compiled) return false
+  return compiled.test(context.name) || compiled.test(context.basename)
+}
+
+/**
+ * Evaluates a condition without applying its negation
+ *
+ * @param context - The rule context
+ * @param condition - The condition to evaluate
+ * @returns True if the condition matches
+ */
+function evaluate(context: RuleContext, condition: RuleCondition): boolean {
+  switch (condition.type) {
+    case "group":
+      // Empty groups never match so that a new, unfinished rule is inert
+      if (condition.conditions.length === 0) return false
+      return condition.operator === "any"
+        ? condition.conditions.some(c => matchCondition(context, c))
+        : condition.conditions.every(c => matchCondition(context, c))
+    case "tag":
+      return anyTagMatches(context.tags, condition.tag, condition.exactMatch)
+    case "path":
+      if (condition.path.trim() === "") return false
+      return matchPath(context.path, condition) !== null
+    case "property":
+      return matchProperty(context.frontmatter, condition)
+    case "extension":
+      return matchExtension(context, condition.extension)
+    case "name":
+      return matchName(context, condition.name, condition.regex === true)
+    default:
+      return false
+  }
+}
+
+/**
+ * Checks whether a file satisfies a rule condition
+ *
+ * Groups combine their children with AND ("all") or OR ("any"), and any
+ * condition with negate set is inverted.
+ *
+ * @param context - The rule context for the file
+ * @param condition - The condition to test
+ * @returns True if the condition is satisfied
+ */
+export function matchCondition(
+  context: RuleContext,
+  condition: RuleCondition
+): boolean {
+  const result = evaluate(context, condition)
+  return condition.negate ? !result : result
+}
@@ -0,0 +1,103 @@
+/**
+ * TagMatcher.ts
+ *
+ * This file provides the tag matching logic used to associate icons with files
+ * through tag mappings. Tags are collected from both the document body and the
+ * frontmatter, and matched against mapping tags with support for Obsidian's
+ * nested tag hierarchy (e.g. a mapping for "project" also matches
+ * "#project/frontend" and "#project/backend/api").
+ */
+
+import { CachedMetadata } from "obsidian"
+
+/**
+ * Normalizes a tag by trimming whitespace and removing the '#' prefix
+ *
+ * @param tag - The tag as written in a note or mapping
+ * @returns The normalized tag name
+ */
+export function normalizeTag(tag: string): string {
+  const trimmed = tag.trim()
+  return trimmed.startsWith("#") ? trimmed.substring(1) : trimmed
+}
+
+/**
+ * Collects all tags on a file from its cached metadata
+ *
+ * Tags can come from:
+ * 1. Inline tags in the document body (stored in metadata.tags)
+ * 2. Frontmatter tags (stored in metadata.frontmatter.tags, array or string)
+ *
+ * @param metadata - The cached metadata for the file
+ * @returns The normalized tag names (without '#' prefix)
+ */
+export function collectFileTags(metadata: CachedMetadata): string[] {
+  const allTags: string[] = []
+
+  // 1. Get inline tags (from document body like #tag)
+  if (metadata.tags && metadata.tags.length > 0) {
+    allTags.push(...metadata.tags.map(t => normalizeTag(t.tag)))
+  }
+
+  // 2. Get frontmatter tags (from YAML tags array)
+  const frontmatterTags = metadata.frontmatter?.tags
+  if (Array.isArray(frontmatterTags)) {
+    allTags.push(
+      ...frontmatterTags.map(tag =>
+        typeof tag === "string" ? normalizeTag(tag) : String(tag).trim()
+      )
+    )
+  } else if (typeof frontmatterTags === "string") {
+    allTags.push(normalizeTag(frontmatterTags))
+  }
+
+  return allTags.filter(tag => tag !== "")
+}
+
+/**
+ * Returns the nesting depth of a tag (number of "/" separated segments)
+ *
+ * @param tag - The normalized tag name
+ * @returns The depth, e.g. 1 for "project" and 3 for "project/backend/api"
+ */
+export function getTagDepth(tag: string): number {
+  return tag.split("/").length
+}
+
+/**
+ * Checks whether a file tag matches a mapping tag
+ *
+ * A file tag matches when it equals the mapping tag, or, unless exact
+ * matching is requested, when it is nested below the mapping tag.
+ *
+ * @param fileTag - A normalized tag from the file
+ * @param mappingTag - The normalized tag from the mapping
+ * @param exact - Whether only an exact match is accepted
+ * @returns True if the tags match
+ */
+export function tagMatches(
+  fileTag: string,
+  mappingTag: string,
+  exact = false
+): boolean {
+  if (mappingTag === "") return false
+  if (fileTag === mappingTag) return true
+  return !exact && fileTag.startsWith(mappingTag + "/")
+}
+
+/**
+ * Checks whether any of a file's tags match a mapping tag
+ *
+ * @param fileTags - The normalized tags on the file
+ * @param mappingTag - The tag from the mapping (may include '#')
+ * @param exact - Whether only exact matches are accepted
+ * @returns True if at least one file tag matches
+ */
+export function anyTagMatches(
+  fileTags: string[],
+  mappingTag: string,
+  exact = false
+): boolean {
+  const normalized = normalizeTag(mappingTag)
+  return fileTags.some(tag => tagMatches(tag, normalized, exact))
+}
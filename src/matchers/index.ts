@@ -0,0 +1,5 @@
+export * from "./ExtensionMatcher"
+export * from "./PathMatcher"
+export * from "./PropertyMatcher"
+export * from "./RuleMatcher"
+export * from "./TagMatcher"
@@ -0,0 +1,57 @@
+/**
+ * BuiltInProvider.ts
+ *
+ * This file provides the base class of the built-in icon providers. Each
+ * built-in provider reads its mappings from the plugin settings and is
+ * turned on and off by its own setting (see SOURCE_ENABLE_SETTINGS).
+ */
+
+import { App, CachedMetadata, TFile } from "obsidian"
+import {
+  IconProvider,
+  IconSource,
+  PluginSettings,
+  ResolvedIcon,
+  SOURCE_LABELS,
+} from "../types"
+
+/**
+ * Base class for the icon providers that ship with the plugin
+ */
+export abstract class BuiltInProvider implements IconProvider {
+  abstract readonly id: IconSource
+  abstract readonly priority: number
+
+  protected app: App
+  protected settings: PluginSettings
+
+  /**
+   * Creates a new built-in provider
+   *
+   * @param app - The Obsidian App instance
+   * @param settings - The current plugin settings
+   */
+  constructor(app: App, settings: PluginSettings) {
+    this.app = app
+    this.settings = settings
+  }
+
+  /** The display name of the provider */
+  get name(): string {
+    return SOURCE_LABELS[this.id]
+  }
+
+  /**
+   * Updates settings for the provider
+   *
+   * @param settings - The new plugin settings
+   */
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings
+  }
+
+  abstract getIcon(
+    file: TFile,
+    metadata: CachedMetadata | null
+  ): ResolvedIcon | null
+}
@@ -0,0 +1,71 @@
+/**
+ * ExtensionProvider.ts
+ *
+ * This file provides the icon provider for extension mappings, so that
+ * attachments such as PDFs and images get icons too. The user's mappings are
+ * checked before the built-in ones, so they override the built-in icons.
+ */
+
+import { TFile } from "obsidian"
+import { BUILT_IN_EXTENSION_MAPPINGS, matchExtension } from "../matchers"
+import { ExtensionMapping, ResolvedIcon } from "../types"
+import { BuiltInProvider } from "./BuiltInProvider"
+
+/**
+ * Provides icons from the extension mappings matching a file's extension
+ */
+export class ExtensionProvider extends BuiltInProvider {
+  readonly id = "extensions"
+  readonly priority = 500
+
+  getIcon(file: TFile): ResolvedIcon | null {
+    return this.getIconForName(file)
+  }
+
+  getIconForPath(path: string): ResolvedIcon | null {
+    const name = path.slice(path.lastIndexOf("/") + 1)
+    const extension = name.slice(name.lastIndexOf(".") + 1)
+    return this.getIconForName({ name, extension })
+  }
+
+  describeNoMatch(file: TFile): string {
+    return `No extension mapping matches "${file.extension}"`
+  }
+
+  /**
+   * Resolves the icon for a file name
+   *
+   * Extension patterns may list several extensions, compound extensions such
+   * as "excalidraw.md", or MIME families such as "image/*".
+   *
+   * @param file - The file name and extension to resolve an icon for
+   * @returns The icon from extension mapping, or null if none matches
+   */
+  private getIconForName(file: {
+    name: string
+    extension: string
+  }): ResolvedIcon | null {
+    const userMappings = this.settings.extensionMappings
+    const mappings: ExtensionMapping[] = this.settings
+      .useBuiltInExtensionMappings
+      ? [...userMappings, ...BUILT_IN_EXTENSION_MAPPINGS]
+      : userMappings
+
+    for (const [index, mapping] of mappings.entries()) {
+      if (!mapping.icon || mapping.icon.trim() === "") continue
+
+      if (matchExtension(file, mapping.extension)) {
+        return {
+          icon: mapping.icon,
+          color: mapping.color,
+          reason:
+            index < userMappings.length
+              ? `Extension mapping ${index + 1}: ${mapping.extension}`
+              : `Built-in extension mapping: ${mapping.extension}`,
+        }
+      }
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * FolderNoteProvider.ts
+ *
+ * This file provides the icon provider for folder note inheritance: files
+ * inherit the frontmatter icon of their nearest ancestor folder note (e.g.
+ * projects/Alpha/Alpha.md or index.md, depending on the configured names).
+ */
+
+import { TFile, TFolder } from "obsidian"
+import { PluginSettings, ResolvedIcon } from "../types"
+import { BuiltInProvider } from "./BuiltInProvider"
+import {
+  getColorFromFrontmatter,
+  getIconFromFrontmatter,
+} from "./FrontmatterProvider"
+
+/**
+ * Provides icons inherited from folder notes
+ */
+export class FolderNoteProvider extends BuiltInProvider {
+  readonly id = "folderNotes"
+  readonly priority = 600
+
+  getIcon(file: TFile): ResolvedIcon | null {
+    return this.getIconFromFolderNotes(file.path, file.parent)
+  }
+
+  getIconForPath(path: string): ResolvedIcon | null {
+    const slash = path.lastIndexOf("/")
+    const parent =
+      slash === -1
+        ? null
+        : this.app.vault.getAbstractFileByPath(path.slice(0, slash))
+    return this.getIconFromFolderNotes(
+      path,
+      parent instanceof TFolder ? parent : null
+    )
+  }
+
+  describeNoMatch(): string {
+    return "No folder note above the file declares an icon"
+  }
+
+  /**
+   * Resolves icon from the nearest ancestor folder note
+   *
+   * Walks up from the file's folder towards the vault root and returns the
+   * frontmatter icon (and color) of the first folder note that declares one.
+   * A folder note does not inherit from itself, so its own icon comes only
+   * from its frontmatter.
+   *
+   * @param filePath - The path of the file to resolve a folder note icon for
+   * @param parent - The folder containing the file
+   * @returns The icon from a folder note, or null if none declares one
+   */
+  private getIconFromFolderNotes(
+    filePath: string,
+    parent: TFolder | null
+  ): ResolvedIcon | null {
+    let folder = parent
+    while (folder && !folder.isRoot()) {
+      for (const name of getFolderNoteNames(this.settings, folder.name)) {
+        const notePath = `${folder.path}/${name}.md`
+        if (notePath === filePath) continue
+
+        const note = this.app.vault.getAbstractFileByPath(notePath)
+        if (!(note instanceof TFile)) continue
+
+        const metadata = this.app.metadataCache.getFileCache(note)
+        const resolved = metadata
+          ? getIconFromFrontmatter(metadata, this.settings)
+          : null
+        if (resolved && metadata) {
+          const color =
+            getColorFromFrontmatter(metadata, this.settings) ?? undefined
+          return {
+            icon: resolved.icon,
+            color,
+            reason: `Folder note ${notePath}`,
+          }
+        }
+      }
+      folder = folder.parent
+    }
+
+    return null
+  }
+}
+
+/**
+ * Returns the folder note file names (without extension) for a folder
+ *
+ * @param settings - The plugin settings
+ * @param folderName - The name of the folder
+ * @returns The configured names with "{folder}" replaced
+ */
+export function getFolderNoteNames(
+  settings: PluginSettings,
+  folderName: string
+): string[] {
+  return settings.folderNoteNames
+    .map(name => name.trim().replace(/\{folder\}/g, folderName))
+    .filter(name => name !== "")
+}
@@ -0,0 +1,64 @@
+/**
+ * FolderProvider.ts
+ *
+ * This file provides the icon provider for folder mappings, which may be
+ * plain folder paths (matched on segment boundaries), glob patterns, or
+ * regular expressions.
+ */
+
+import { TFile } from "obsidian"
+import { comparePathMatches, matchPath, PathMatch } from "../matchers"
+import { FolderMapping, ResolvedIcon } from "../types"
+import { BuiltInProvider } from "./BuiltInProvider"
+
+/**
+ * Provides icons from the folder mappings matching a file's path
+ */
+export class FolderProvider extends BuiltInProvider {
+  readonly id = "folders"
+  readonly priority = 700
+
+  getIcon(file: TFile): ResolvedIcon | null {
+    return this.getIconForPath(file.path)
+  }
+
+  /**
+   * When multiple mappings match, the most specific one wins (see
+   * PathMatcher for the ranking), and earlier mappings win ties.
+   */
+  getIconForPath(path: string): ResolvedIcon | null {
+    let bestMatch: {
+      match: PathMatch
+      index: number
+      mapping: FolderMapping
+    } | null = null
+
+    for (const [index, mapping] of this.settings.folderMappings.entries()) {
+      if (!mapping.icon || mapping.icon.trim() === "") continue
+
+      const match = matchPath(path, mapping)
+      if (!match) continue
+
+      if (!bestMatch || comparePathMatches(match, bestMatch.match) > 0) {
+        bestMatch = { match, index, mapping }
+      }
+    }
+
+    if (!bestMatch) {
+      return null
+    }
+
+    const { index, mapping } = bestMatch
+    return {
+      icon: mapping.icon,
+      color: mapping.color,
+      reason: `Folder mapping ${index + 1}: ${mapping.path}${
+        mapping.regex ? " (regex)" : ""
+      }`,
+    }
+  }
+
+  describeNoMatch(file: TFile): string {
+    return `No folder mapping matches "${file.path}"`
+  }
+}
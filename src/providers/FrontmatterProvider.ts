@@ -0,0 +1,175 @@
+/**
+ * FrontmatterProvider.ts
+ *
+ * This file provides the icon provider that reads a file's icon from
+ * frontmatter properties (by default "icon"). The helpers for reading the
+ * icon and its color are shared with the folder note provider and the
+ * resolver, which applies a frontmatter color to icons from any provider.
+ */
+
+import { CachedMetadata, FrontMatterCache, TFile } from "obsidian"
+import { resolveIconAlias } from "../IconAliases"
+import { isValidIcon } from "../IconName"
+import { PluginSettings, ResolvedIcon } from "../types"
+import { BuiltInProvider } from "./BuiltInProvider"
+
+/**
+ * Provides icons set in a file's frontmatter
+ */
+export class FrontmatterProvider extends BuiltInProvider {
+  readonly id = "frontmatter"
+  readonly priority = 100
+
+  getIcon(file: TFile, metadata: CachedMetadata | null): ResolvedIcon | null {
+    return metadata?.frontmatter
+      ? getIconFromFrontmatter(metadata, this.settings)
+      : null
+  }
+
+  describeNoMatch(): string {
+    const properties = getIconProperties(this.settings).map(
+      property => `"${property}"`
+    )
+    return properties.length === 1
+      ? `No ${properties[0]} property in the frontmatter`
+      : `No icon in the frontmatter properties ${properties.join(", ")}`
+  }
+}
+
+/**
+ * Extracts the icon name from a file's frontmatter
+ *
+ * The property names are configurable via the frontmatterProperties setting
+ * (defaults to "icon") and are tried in order. For list properties, the
+ * first entry that is a known icon or emoji (after normalizing how it is
+ * written and applying icon aliases, see resolveIconAlias) is used, so lists
+ * mixing icons with other values (e.g. cssclasses) work as well. The icon
+ * itself is aliased and normalized by the resolver, like the icons of every
+ * other source.
+ *
+ * @param metadata - The cached metadata for the file
+ * @param settings - The plugin settings
+ * @returns The icon from frontmatter, or null if not found
+ */
+export function getIconFromFrontmatter(
+  metadata: CachedMetadata,
+  settings: PluginSettings
+): ResolvedIcon | null {
+  if (!metadata.frontmatter) return null
+
+  for (const property of getIconProperties(settings)) {
+    const value = getFrontmatterValue(metadata.frontmatter, property)
+    const iconName = Array.isArray(value)
+      ? value.find(
+          (entry): entry is string =>
+            typeof entry === "string" &&
+            isValidIcon(resolveIconAlias(entry, settings))
+        )
+      : value
+
+    if (typeof iconName === "string" && iconName.trim() !== "") {
+      return {
+        icon: iconName.trim(),
+        reason: `Frontmatter property "${property}"`,
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Returns the property names icons are read from, in the order to try them
+ *
+ * @param settings - The plugin settings
+ * @returns The configured non-empty names, or ["icon"] if there are none
+ */
+export function getIconProperties(settings: PluginSettings): string[] {
+  const properties = settings.frontmatterProperties
+    .map(property => property.trim())
+    .filter(property => property !== "")
+  return properties.length > 0 ? properties : ["icon"]
+}
+
+/**
+ * Reads a frontmatter property, following dots into nested properties
+ *
+ * A property whose name literally contains the dots takes precedence, so
+ * "meta.icon" reads `meta.icon: rocket` before `meta: { icon: rocket }`.
+ *
+ * @param frontmatter - The file's frontmatter
+ * @param property - The property name, e.g. "icon" or "meta.icon"
+ * @returns The property value, or undefined if it is not set
+ */
+export function getFrontmatterValue(
+  frontmatter: FrontMatterCache,
+  property: string
+): unknown {
+  if (property in frontmatter) return frontmatter[property]
+
+  let value: unknown = frontmatter
+  for (const key of property.split(".")) {
+    if (typeof value !== "object" || value === null) return undefined
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+/**
+ * Extracts the icon color from a file's frontmatter
+ *
+ * The property name is configurable via the frontmatterColorProperty
+ * setting (defaults to "icon-color").
+ *
+ * @param metadata - The cached metadata for the file
+ * @param settings - The plugin settings
+ * @returns The color from frontmatter, or null if not found
+ */
+export function getColorFromFrontmatter(
+  metadata: CachedMetadata,
+  settings: PluginSettings
+): string | null {
+  const property = settings.frontmatterColorProperty || "icon-color"
+  const color = metadata.frontmatter?.[property]
+
+  if (typeof color === "string" && color.trim() !== "") {
+    return color.trim()
+  }
+
+  return null
+}
+
+/**
+ * Sets or removes a frontmatter property, following dots into nested ones
+ *
+ * Mirrors getFrontmatterValue: a property whose name literally contains the
+ * dots is used if present, otherwise the nested properties are created.
+ *
+ * @param frontmatter - The frontmatter object to modify
+ * @param property - The property name, e.g. "icon" or "meta.icon"
+ * @param value - The new value, or null to remove the property
+ */
+export function setFrontmatterValue(
+  frontmatter: Record<string, unknown>,
+  property: string,
+  value: unknown
+): void {
+  const keys = property in frontmatter ? [property] : property.split(".")
+  const last = keys.pop() as string
+
+  let parent = frontmatter
+  for (const key of keys) {
+    const child = parent[key]
+    if (typeof child !== "object" || child === null || Array.isArray(child)) {
+      if (value === null) return
+      parent[key] = {}
+    }
+    parent = parent[key] as Record<string, unknown>
+  }
+
+  if (value === null) {
+    delete parent[last]
+  } else {
+    parent[last] = value
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * InlineFieldProvider.ts
+ *
+ * This file provides the icon provider for Dataview-style inline fields
+ * (`icon:: rocket`) in a note's body. Inline fields are not part of
+ * Obsidian's metadata cache, so the provider keeps the fields of each note,
+ * parsed from its content when the note changes (see setContent).
+ *
+ * The same property names as for frontmatter are used (frontmatterProperties
+ * and frontmatterColorProperty).
+ */
+
+import { TFile } from "obsidian"
+import { PluginSettings, ResolvedIcon } from "../types"
+import { BuiltInProvider } from "./BuiltInProvider"
+import { getIconProperties } from "./FrontmatterProvider"
+
+/** A field on its own line, optionally in a list item or block quote */
+const LINE_FIELD_PATTERN =
+  /^\s*(?:>\s*)*(?:(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?)?([^[\]()]+?)::(.*)$/
+
+/** A field wrapped in brackets or parentheses anywhere in a line */
+const WRAPPED_FIELD_PATTERN = /[[(]([^[\]()]+?)::([^\])]*)[\])]/g
+
+/** The opening or closing line of a fenced code block */
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/
+
+/**
+ * Provides icons from inline fields in a note's body
+ */
+export class InlineFieldProvider extends BuiltInProvider {
+  readonly id = "inlineFields"
+  readonly priority = 150
+
+  /** The inline fields of each read note, by normalized key */
+  private fields: Map<string, Map<string, string>> = new Map()
+
+  getIcon(file: TFile): ResolvedIcon | null {
+    const fields = this.fields.get(file.path)
+    if (!fields) return null
+
+    const colorProperty = this.settings.frontmatterColorProperty || "icon-color"
+    for (const property of getIconProperties(this.settings)) {
+      const icon = fields.get(normalizeFieldKey(property))
+      if (icon) {
+        return {
+          icon,
+          color: fields.get(normalizeFieldKey(colorProperty)),
+          reason: `Inline field "${property}::"`,
+        }
+      }
+    }
+    return null
+  }
+
+  describeNoMatch(file: TFile): string {
+    if (!this.fields.has(file.path)) {
+      return file.extension === "md"
+        ? "The note has not been read yet"
+        : "Only notes have inline fields"
+    }
+    const fields = getIconProperties(this.settings)
+      .map(property => `"${property}::"`)
+      .join(", ")
+    return `No ${fields} inline field in the note`
+  }
+
+  /**
+   * Updates settings for the provider
+   *
+   * Fields are dropped when the source is turned off, since notes are no
+   * longer read while it is off and the fields would become outdated.
+   *
+   * @param settings - The new plugin settings
+   */
+  updateSettings(settings: PluginSettings): void {
+    super.updateSettings(settings)
+    if (!settings.enableInlineFields) {
+      this.fields.clear()
+    }
+  }
+
+  /**
+   * Returns whether the fields of a note are known
+   *
+   * @param path - The path of the note
+   * @returns True if setContent was called for the note
+   */
+  hasContent(path: string): boolean {
+    return this.fields.has(path)
+  }
+
+  /**
+   * Parses the inline fields of a note from its content
+   *
+   * Does nothing for other files, or while the source is turned off.
+   *
+   * @param file - The note
+   * @param content - The note's content, or null to forget a deleted note
+   * @returns True if the icon or color field of the note changed
+   */
+  setContent(file: TFile, content: string | null): boolean {
+    const before = this.getIconFields(file.path)
+    if (content === null) {
+      this.fields.delete(file.path)
+    } else if (this.settings.enableInlineFields && file.extension === "md") {
+      this.fields.set(file.path, parseInlineFields(content))
+    }
+    return before !== this.getIconFields(file.path)
+  }
+
+  /**
+   * Moves the fields of a renamed note to its new path
+   *
+   * @param oldPath - The path of the note before the rename
+   * @param newPath - The path of the note after the rename
+   */
+  renameContent(oldPath: string, newPath: string): void {
+    const fields = this.fields.get(oldPath)
+    this.fields.delete(oldPath)
+    if (fields) {
+      this.fields.set(newPath, fields)
+    }
+  }
+
+  /**
+   * Returns the icon and color fields of a note, for detecting changes
+   */
+  private getIconFields(path: string): string {
+    const fields = this.fields.get(path)
+    const properties = [
+      ...getIconProperties(this.settings),
+      this.settings.frontmatterColorProperty || "icon-color",
+    ]
+    return JSON.stringify(
+      properties.map(property => fields?.get(normalizeFieldKey(property)))
+    )
+  }
+}
+
+/**
+ * Extracts the inline fields from a note's content
+ *
+ * Supports fields on their own line (`icon:: rocket`, also in list items and
+ * block quotes) and wrapped in a line (`[icon:: rocket]`, `(icon:: rocket)`).
+ * The frontmatter and fenced code blocks are skipped. When a field occurs
+ * more than once, the first value is kept.
+ *
+ * @param content - The note's content
+ * @returns The non-empty field values, by normalized key
+ */
+export function parseInlineFields(content: string): Map<string, string> {
+  const fields = new Map<string, string>()
+  const addField = (key: string, value: string) => {
+    const normalizedKey = normalizeFieldKey(key)
+    const trimmedValue = value.trim()
+    if (normalizedKey && trimmedValue && !fields.has(normalizedKey)) {
+      fields.set(normalizedKey, trimmedValue)
+    }
+  }
+
+  const lines = content.split(/\r?\n/)
+  let start = 0
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---")
+    start = end === -1 ? 0 : end + 1
+  }
+
+  let inCodeBlock = false
+  for (const line of lines.slice(start)) {
+    if (CODE_FENCE_PATTERN.test(line)) {
+      inCodeBlock = !inCodeBlock
+      continue
+    }
+    if (inCodeBlock) continue
+
+    for (const match of line.matchAll(WRAPPED_FIELD_PATTERN)) {
+      addField(match[1], match[2])
+    }
+    const lineField = LINE_FIELD_PATTERN.exec(line)
+    if (lineField) {
+      addField(lineField[1], lineField[2])
+    }
+  }
+
+  return fields
+}
+
+/**
+ * Normalizes an inline field key for comparison
+ *
+ * Like Dataview, formatting is removed and keys are compared
+ * case-insensitively with spaces and dashes treated alike, so
+ * `**Icon Color**::` matches the property "icon-color".
+ *
+ * @param key - The field key or property name
+ * @returns The normalized key
+ */
+function normalizeFieldKey(key: string): string {
+  return key
+    .replace(/[*_~`]/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "-")
+}
@@ -0,0 +1,52 @@
+/**
+ * PropertyProvider.ts
+ *
+ * This file provides the icon provider for property mappings, which match
+ * frontmatter property values (e.g. status = done, priority ≥ 3).
+ */
+
+import { CachedMetadata, TFile } from "obsidian"
+import { matchProperty } from "../matchers"
+import { ResolvedIcon } from "../types"
+import { BuiltInProvider } from "./BuiltInProvider"
+
+/**
+ * Provides icons from the first matching property mapping
+ */
+export class PropertyProvider extends BuiltInProvider {
+  readonly id = "properties"
+  readonly priority = 300
+
+  /**
+   * Checks each property mapping in priority order and returns the icon of
+   * the first mapping whose condition matches the file's frontmatter. See
+   * PropertyMatcher for comparison rules. Files without frontmatter are
+   * checked too, so "not-exists" mappings still apply to them.
+   */
+  getIcon(file: TFile, metadata: CachedMetadata | null): ResolvedIcon | null {
+    const frontmatter = metadata?.frontmatter ?? {}
+
+    for (const [index, mapping] of this.settings.propertyMappings.entries()) {
+      if (!mapping.icon || mapping.icon.trim() === "") continue
+
+      if (matchProperty(frontmatter, mapping)) {
+        const condition = ["exists", "not-exists"].includes(mapping.operator)
+          ? `${mapping.property} ${mapping.operator}`
+          : `${mapping.property} ${mapping.operator} ${mapping.value}`
+        return {
+          icon: mapping.icon,
+          color: mapping.color,
+          reason: `Property mapping ${index + 1}: ${condition}`,
+        }
+      }
+    }
+
+    return null
+  }
+
+  describeNoMatch(): string {
+    return this.settings.propertyMappings.length === 0
+      ? "No property mappings configured"
+      : "No property mapping matches the frontmatter"
+  }
+}
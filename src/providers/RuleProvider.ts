@@ -0,0 +1,70 @@
+/**
+ * RuleProvider.ts
+ *
+ * This file provides the icon provider for compound rules, which combine tag,
+ * path, property, extension, and file name conditions with AND / OR / NOT.
+ * Rule matching is shared with the badge rules, which the resolver evaluates
+ * independently of the icon providers.
+ */
+
+import { CachedMetadata, TFile } from "obsidian"
+import { createRuleContext, matchCondition } from "../matchers"
+import { IconRule, ResolvedIcon } from "../types"
+import { BuiltInProvider } from "./BuiltInProvider"
+
+/**
+ * Provides icons from the first matching rule
+ */
+export class RuleProvider extends BuiltInProvider {
+  readonly id = "rules"
+  readonly priority = 200
+
+  getIcon(file: TFile, metadata: CachedMetadata | null): ResolvedIcon | null {
+    return matchRules(this.settings.rules, file, metadata)
+  }
+
+  describeNoMatch(): string {
+    return this.settings.rules.length === 0
+      ? "No rules configured"
+      : "No enabled rule matches"
+  }
+}
+
+/**
+ * Resolves an icon from a list of rules
+ *
+ * Evaluates each enabled rule in priority order and returns the icon of the
+ * first rule whose condition tree matches the file. See RuleMatcher for
+ * details. Used for both the icon rules and the badge rules.
+ *
+ * @param ruleList - The rules to evaluate
+ * @param file - The file to resolve a rule-based icon for
+ * @param metadata - The cached metadata for the file, if any
+ * @returns The icon from the first matching rule, or null if none match
+ */
+export function matchRules(
+  ruleList: IconRule[],
+  file: TFile,
+  metadata: CachedMetadata | null
+): ResolvedIcon | null {
+  const rules = ruleList.filter(
+    rule => !rule.disabled && rule.icon && rule.icon.trim() !== ""
+  )
+  if (rules.length === 0) {
+    return null
+  }
+
+  const context = createRuleContext(file, metadata)
+  for (const rule of rules) {
+    if (matchCondition(context, rule.condition)) {
+      const number = ruleList.indexOf(rule) + 1
+      return {
+        icon: rule.icon,
+        color: rule.color,
+        reason: rule.name ? `Rule ${number} "${rule.name}"` : `Rule ${number}`,
+      }
+    }
+  }
+
+  return null
+}
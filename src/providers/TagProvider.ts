@@ -0,0 +1,81 @@
+/**
+ * TagProvider.ts
+ *
+ * This file provides the icon provider for tag mappings. Tags are collected
+ * from the document body and the frontmatter, and a mapping also matches
+ * tags nested below its own unless it is marked as exact.
+ */
+
+import { CachedMetadata, TFile } from "obsidian"
+import {
+  anyTagMatches,
+  collectFileTags,
+  getTagDepth,
+  normalizeTag,
+} from "../matchers"
+import { ResolvedIcon, TagMapping } from "../types"
+import { BuiltInProvider } from "./BuiltInProvider"
+
+/**
+ * Provides icons from the tag mappings matching a file's tags
+ */
+export class TagProvider extends BuiltInProvider {
+  readonly id = "tags"
+  readonly priority = 400
+
+  /**
+   * When several mappings match, the tagMatchMode setting decides: in
+   * "priority" mode the first matching mapping wins, in "specificity" mode
+   * the deepest matching mapping wins and priority order only breaks ties.
+   */
+  getIcon(file: TFile, metadata: CachedMetadata | null): ResolvedIcon | null {
+    const allTags = metadata ? collectFileTags(metadata) : []
+
+    if (allTags.length === 0) {
+      return null
+    }
+
+    let bestMatch: {
+      depth: number
+      index: number
+      mapping: TagMapping
+    } | null = null
+
+    // Check each tag mapping in priority order
+    for (const [index, mapping] of this.settings.tagMappings.entries()) {
+      if (!mapping.icon || mapping.icon.trim() === "") continue
+      if (!anyTagMatches(allTags, mapping.tag, mapping.exactMatch)) continue
+
+      if (this.settings.tagMatchMode !== "specificity") {
+        return {
+          icon: mapping.icon,
+          color: mapping.color,
+          reason: `Tag mapping ${index + 1}: #${normalizeTag(mapping.tag)}`,
+        }
+      }
+
+      const depth = getTagDepth(normalizeTag(mapping.tag))
+      if (!bestMatch || depth > bestMatch.depth) {
+        bestMatch = { depth, index, mapping }
+      }
+    }
+
+    if (!bestMatch) {
+      return null
+    }
+
+    return {
+      icon: bestMatch.mapping.icon,
+      color: bestMatch.mapping.color,
+      reason: `Tag mapping ${bestMatch.index + 1}: #${normalizeTag(
+        bestMatch.mapping.tag
+      )} (most specific)`,
+    }
+  }
+
+  describeNoMatch(file: TFile, metadata: CachedMetadata | null): string {
+    const tags = metadata ? collectFileTags(metadata) : []
+    if (tags.length === 0) return "The file has no tags"
+    return `No tag mapping matches ${tags.map(tag => `#${tag}`).join(", ")}`
+  }
+}
@@ -0,0 +1,9 @@
+export * from "./BuiltInProvider"
+export * from "./ExtensionProvider"
+export * from "./FolderNoteProvider"
+export * from "./FolderProvider"
+export * from "./FrontmatterProvider"
+export * from "./InlineFieldProvider"
+export * from "./PropertyProvider"
+export * from "./RuleProvider"
+export * from "./TagProvider"
@@ -2,7 +2,7 @@
  * FileListRenderer.ts
  *
  * This file provides icon rendering for file lists in Obsidian, including:
- * - File explorer (left sidebar)
+ * - File explorer (left sidebar), including folders
  * - Search results
  *
  * The renderer uses MutationObserver to detect when new files are added to
@@ -10,7 +10,7 @@
  * performance issues when many files are displayed.
  */
 
-import { App, TFile } from "obsidian"
+import { App, TFile, TFolder } from "obsidian"
 import { IconElementFactory } from "../IconElementFactory"
 import { IconResolver } from "../IconResolver"
 import { ObserverManager } from "../ObserverManager"
@@ -80,9 +80,10 @@ export class FileListRenderer {
   /**
    * Updates icons for all visible files in the file explorer and search results
    *
-   * Iterates through all file list items currently visible in the DOM and
-   * adds icons based on the current settings. This is called initially after
-   * setup and whenever the mutation observer detects changes.
+   * Iterates through all file list items (and explorer folders) currently
+   * visible in the DOM and adds icons based on the current settings. This is
+   * called initially after setup and whenever the mutation observer detects
+   * changes.
    */
   updateFileExplorerIcons(): void {
     if (!this.settings.renderInFileLists) return
@@ -93,6 +94,8 @@ export class FileListRenderer {
       this.updateNavFileIcon(navFile as HTMLElement)
     })
 
+    this.updateFolderIcons()
+
     // Search results
     const searchResults = document.querySelectorAll(".search-result-file-title")
     searchResults.forEach(result => {
@@ -100,6 +103,41 @@ export class FileListRenderer {
     })
   }
 
+  /**
+   * Updates the icons of all folders in the file explorer
+   */
+  updateFolderIcons(): void {
+    if (!this.settings.renderInFileLists) return
+
+    const navFolders = document.querySelectorAll(".nav-folder-title")
+    navFolders.forEach(navFolder => {
+      this.updateNavFolderIcon(navFolder as HTMLElement)
+    })
+  }
+
+  /**
+   * Updates the icons of several files in the file explorer and search results
+   *
+   * Visits every file list item once and updates only those showing one of
+   * the given files.
+   *
+   * @param files - The files whose icons should be updated
+   */
+  updateFileIcons(files: TFile[]): void {
+    if (!this.settings.renderInFileLists || files.length === 0) return
+
+    const paths = new Set(files.map(file => file.path))
+    const showsFile = (el: Element) =>
+      paths.has(el.getAttribute("data-path") ?? "")
+
+    document.querySelectorAll(".nav-file-title").forEach(navFile => {
+      if (showsFile(navFile)) this.updateNavFileIcon(navFile as HTMLElement)
+    })
+    document.querySelectorAll(".search-result-file-title").forEach(result => {
+      if (showsFile(result)) this.updateSearchResultIcon(result as HTMLElement)
+    })
+  }
+
   /**
    * Updates the icon for a specific file in file lists
    *
@@ -137,7 +175,7 @@ export class FileListRenderer {
     const file = this.app.vault.getAbstractFileByPath(fileTitle)
     if (!(file instanceof TFile)) return
 
-    const iconName = this.iconResolver.getIconForFile(file)
+    const resolved = this.iconResolver.getIconForFile(file, "fileLists")
 
     // Remove existing icon
     const existingIcon = navFile.querySelector(".file-icon")
@@ -145,8 +183,11 @@ export class FileListRenderer {
       existingIcon.remove()
     }
 
-    if (iconName) {
-      const iconEl = IconElementFactory.createIconElement(iconName)
+    if (resolved) {
+      const iconEl = IconElementFactory.createIconElement(
+        resolved,
+        this.settings.showIconTooltips
+      )
       const titleContent = navFile.querySelector(".nav-file-title-content")
       if (titleContent) {
         titleContent.prepend(iconEl)
@@ -154,6 +195,42 @@ export class FileListRenderer {
     }
   }
 
+  /**
+   * Updates the icon for a single folder in the explorer
+   *
+   * Resolves the folder's icon and prepends the icon elements (closed and,
+   * if configured, open variant) to the folder title content. Existing icons
+   * are removed when folder icons are turned off or no icon applies.
+   *
+   * @param navFolder - The navigation folder element to update
+   */
+  private updateNavFolderIcon(navFolder: HTMLElement): void {
+    const folderPath = navFolder.getAttribute("data-path")
+    if (!folderPath) return
+
+    const folder = this.app.vault.getAbstractFileByPath(folderPath)
+    if (!(folder instanceof TFolder)) return
+
+    const resolved = this.settings.renderFolderIcons
+      ? this.iconResolver.getIconForFolder(folder)
+      : null
+
+    // Remove existing icons
+    navFolder.querySelectorAll(".file-icon").forEach(icon => icon.remove())
+
+    if (resolved) {
+      const titleContent = navFolder.querySelector(".nav-folder-title-content")
+      if (titleContent) {
+        titleContent.prepend(
+          ...IconElementFactory.createFolderIconElements(
+            resolved,
+            this.settings.showIconTooltips
+          )
+        )
+      }
+    }
+  }
+
   /**
    * Updates the icon for a single search result
    *
@@ -169,7 +246,7 @@ export class FileListRenderer {
     const file = this.app.vault.getAbstractFileByPath(filePath)
     if (!(file instanceof TFile)) return
 
-    const iconName = this.iconResolver.getIconForFile(file)
+    const resolved = this.iconResolver.getIconForFile(file, "fileLists")
 
     // Remove existing icon
     const existingIcon = result.querySelector(".file-icon")
@@ -177,8 +254,11 @@ export class FileListRenderer {
       existingIcon.remove()
     }
 
-    if (iconName) {
-      const iconEl = IconElementFactory.createIconElement(iconName)
+    if (resolved) {
+      const iconEl = IconElementFactory.createIconElement(
+        resolved,
+        this.settings.showIconTooltips
+      )
       result.prepend(iconEl)
     }
   }
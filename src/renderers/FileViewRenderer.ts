@@ -164,7 +164,7 @@ export class FileViewRenderer {
 
     if (!viewHeader) return
 
-    const iconName = this.iconResolver.getIconForFile(file)
+    const resolved = this.iconResolver.getIconForFile(file, "fileView")
 
     // Remove existing icon
     const existingIcon = viewHeader.querySelector(".file-icon")
@@ -172,8 +172,11 @@ export class FileViewRenderer {
       existingIcon.remove()
     }
 
-    if (iconName) {
-      const iconEl = IconElementFactory.createIconElement(iconName)
+    if (resolved) {
+      const iconEl = IconElementFactory.createIconElement(
+        resolved,
+        this.settings.showIconTooltips
+      )
       viewHeader.prepend(iconEl)
     }
   }
@@ -194,7 +197,7 @@ export class FileViewRenderer {
     const file = leaf.view.file
     if (!file) return
 
-    const iconName = this.iconResolver.getIconForFile(file)
+    const resolved = this.iconResolver.getIconForFile(file, "fileView")
 
     // Find or create a wrapper container outside the editable title
     let wrapper = title.parentElement
@@ -213,8 +216,11 @@ export class FileViewRenderer {
     }
 
     // Add icon to wrapper, before the title (outside the editable area)
-    if (iconName) {
-      const iconEl = IconElementFactory.createIconElement(iconName)
+    if (resolved) {
+      const iconEl = IconElementFactory.createIconElement(
+        resolved,
+        this.settings.showIconTooltips
+      )
       wrapper.insertBefore(iconEl, title)
     }
   }
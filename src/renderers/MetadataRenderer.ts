@@ -149,18 +149,15 @@ export class MetadataRenderer {
       const href = link.getAttribute("data-href")
       if (!href) return
 
-      // Resolve the file from the link
-      const file = this.app.metadataCache.getFirstLinkpathDest(
-        href,
-        activeFile.path
-      )
-      if (!file) return
-
-      const iconName = this.iconResolver.getIconForFile(file)
-      if (!iconName) return
+      // Resolve the icon from the link (unresolved links may get one too)
+      const resolved = this.iconResolver.getIconForLink(href, activeFile.path)
+      if (!resolved) return
 
       // Create and prepend icon
-      const iconEl = IconElementFactory.createIconElement(iconName)
+      const iconEl = IconElementFactory.createIconElement(
+        resolved,
+        this.settings.showIconTooltips
+      )
       link.prepend(iconEl)
     })
 
@@ -177,20 +174,17 @@ export class MetadataRenderer {
       const href = pill.getAttribute("data-href")
       if (!href) return
 
-      // Resolve the file from the link
-      const file = this.app.metadataCache.getFirstLinkpathDest(
-        href,
-        activeFile.path
-      )
-      if (!file) return
-
-      const iconName = this.iconResolver.getIconForFile(file)
-      if (!iconName) return
+      // Resolve the icon from the link (unresolved links may get one too)
+      const resolved = this.iconResolver.getIconForLink(href, activeFile.path)
+      if (!resolved) return
 
       // Find the content container (multi-select-pill-content) and prepend icon there
       const contentEl = pill.querySelector(".multi-select-pill-content")
       if (contentEl) {
-        const iconEl = IconElementFactory.createIconElement(iconName)
+        const iconEl = IconElementFactory.createIconElement(
+          resolved,
+          this.settings.showIconTooltips
+        )
         contentEl.prepend(iconEl)
       }
     })
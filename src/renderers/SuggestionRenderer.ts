@@ -168,11 +168,14 @@ export class SuggestionRenderer {
       const file = this.app.vault.getAbstractFileByPath(filePath)
       if (!(file instanceof TFile)) return
 
-      const iconName = this.iconResolver.getIconForFile(file)
-      if (!iconName) return
+      const resolved = this.iconResolver.getIconForFile(file, "wikilinks")
+      if (!resolved) return
 
       // Create and prepend icon
-      const iconEl = IconElementFactory.createIconElement(iconName)
+      const iconEl = IconElementFactory.createIconElement(
+        resolved,
+        this.settings.showIconTooltips
+      )
       titleEl.prepend(iconEl)
     })
   }
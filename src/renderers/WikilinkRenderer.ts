@@ -86,18 +86,15 @@ export class WikilinkRenderer {
       // Check if icon already exists
       if (link.querySelector(".file-icon")) return
 
-      // Resolve the file from the link
-      const file = this.app.metadataCache.getFirstLinkpathDest(
-        href,
-        ctx.sourcePath
-      )
-      if (!file) return
-
-      const iconName = this.iconResolver.getIconForFile(file)
-      if (!iconName) return
+      // Resolve the icon from the link (unresolved links may get one too)
+      const resolved = this.iconResolver.getIconForLink(href, ctx.sourcePath)
+      if (!resolved) return
 
       // Create icon element
-      const iconEl = IconElementFactory.createIconElement(iconName)
+      const iconEl = IconElementFactory.createIconElement(
+        resolved,
+        this.settings.showIconTooltips
+      )
 
       // For multi-select pills, prepend to content container
       if (
@@ -126,7 +123,21 @@ export class WikilinkRenderer {
    * @param targetFile - The file whose icon should be updated in wikilinks
    */
   updateWikilinksForFile(targetFile: TFile): void {
-    if (!this.settings.renderInWikilinks) return
+    this.updateWikilinksForFiles([targetFile])
+  }
+
+  /**
+   * Updates all wikilinks that reference any of several files
+   *
+   * Visits every wikilink in the open markdown views once, which is cheaper
+   * than updating the files one by one when a mapping affects many files.
+   *
+   * @param targetFiles - The files whose icons should be updated in wikilinks
+   */
+  updateWikilinksForFiles(targetFiles: TFile[]): void {
+    if (!this.settings.renderInWikilinks || targetFiles.length === 0) return
+
+    const targetPaths = new Set(targetFiles.map(file => file.path))
 
     // Update wikilinks in all markdown views
     const leaves = this.app.workspace.getLeavesOfType("markdown")
@@ -163,9 +174,12 @@ export class WikilinkRenderer {
           file.path
         )
 
-        // If this link points to our target file, update the icon
-        if (linkedFile && linkedFile.path === targetFile.path) {
-          const iconName = this.iconResolver.getIconForFile(targetFile)
+        // If this link points to one of our target files, update the icon
+        if (linkedFile && targetPaths.has(linkedFile.path)) {
+          const resolved = this.iconResolver.getIconForFile(
+            linkedFile,
+            "wikilinks"
+          )
 
           // Remove existing icon
           const existingIcon = link.querySelector(".file-icon")
@@ -173,8 +187,11 @@ export class WikilinkRenderer {
             existingIcon.remove()
           }
 
-          if (iconName) {
-            const iconEl = IconElementFactory.createIconElement(iconName)
+          if (resolved) {
+            const iconEl = IconElementFactory.createIconElement(
+              resolved,
+              this.settings.showIconTooltips
+            )
 
             // For multi-select pills, prepend to content container
             if (link.classList.contains("multi-select-pill")) {
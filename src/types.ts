@@ -7,36 +7,556 @@
  * Key types defined here:
  * - TagMapping: Associates a tag with an icon name
  * - FolderMapping: Associates a folder path with an icon name
+ * - ExtensionMapping: Associates file extensions with an icon name
+ * - FolderIcon: An icon set directly on a folder in the file explorer
+ * - IconAlias: An alternative name that stands for an icon
+ * - PropertyMapping: Associates a frontmatter property value with an icon name
+ * - IconRule: Associates a compound condition (AND/OR/NOT) with an icon name
+ * - ResolvedIcon: The icon (and optional color and badge) resolved for a file
+ * - IconProvider: A source of file icons, built in or registered by a plugin
+ * - RenderLocation: A group of places where icons are rendered
+ * - IconTrace: Explanation of how a file's icon was resolved
+ * - Diagnostic: A problem found by the diagnostics report
  * - PluginSettings: Complete configuration for the plugin
  * - IconCache: Cache of resolved icons for performance
  */
 
+import { CachedMetadata, TFile } from "obsidian"
+
 /**
  * Maps a tag to an icon name for files with that tag
  *
  * Tags are checked in priority order (as defined in the settings array).
- * The tag name should not include the '#' prefix.
+ * The tag name should not include the '#' prefix. Unless exactMatch is set,
+ * a mapping also matches nested tags (e.g. "project" matches "project/frontend").
  */
 export interface TagMapping {
   /** The tag name to match (without # prefix) */
   tag: string
   /** The Lucide icon name to display for files with this tag */
   icon: string
+  /** Optional icon color (hex, CSS variable, or theme color name) */
+  color?: string
+  /** Whether to match only this exact tag and not its nested tags */
+  exactMatch?: boolean
 }
 
 /**
- * Maps a folder path to an icon name for files in that folder
+ * How to choose between several tag mappings that match a file
+ *
+ * - "priority": the first matching mapping in the list wins
+ * - "specificity": the deepest (most nested) matching mapping wins, with
+ *   priority order breaking ties
+ */
+export type TagMatchMode = "priority" | "specificity"
+
+/**
+ * Maps a folder path or path pattern to an icon name for matching files
  *
- * Paths are relative to the vault root. When multiple folders match,
- * the deepest (most specific) path takes priority.
+ * Paths are relative to the vault root. Plain folder paths match on segment
+ * boundaries, paths containing glob characters are treated as glob patterns,
+ * and regex mappings are tested against the full file path. When multiple
+ * mappings match, the most specific one takes priority. A mapping whose path
+ * targets a folder itself also gives that folder its icon in the file
+ * explorer.
  */
 export interface FolderMapping {
-  /** The folder path relative to vault root (e.g., "projects/frontend") */
+  /**
+   * The folder path or glob pattern relative to vault root
+   * (e.g., "projects/frontend", "journal/2024-*"), or a regular expression
+   */
   path: string
   /** The Lucide icon name to display for files in this folder */
   icon: string
+  /** Optional icon color (hex, CSS variable, or theme color name) */
+  color?: string
+  /** Whether the path is a regular expression tested against the file path */
+  regex?: boolean
+  /** Optional icon shown on the folder itself while it is expanded */
+  openIcon?: string
+}
+
+/**
+ * An icon set directly on a folder
+ *
+ * Folder icons only apply to the folder itself in the file explorer, not to
+ * the files it contains, and take priority over folder mappings.
+ */
+export interface FolderIcon {
+  /** The folder path relative to vault root */
+  path: string
+  /** The Lucide icon name to display for the folder */
+  icon: string
+  /** Optional icon shown while the folder is expanded */
+  openIcon?: string
+  /** Optional icon color (hex, CSS variable, or theme color name) */
+  color?: string
+}
+
+/**
+ * An alternative name that stands for an icon
+ *
+ * Aliases are replaced by the icon name before rendering (e.g. "todo" →
+ * "list-checks"), wherever icon names are accepted.
+ */
+export interface IconAlias {
+  /** The alternative name */
+  alias: string
+  /** The icon name the alias stands for */
+  icon: string
+}
+
+/**
+ * Maps file extensions to an icon name
+ *
+ * The extension may list several entries separated by "|" (e.g. "png|jpg"),
+ * compound extensions matched against the end of the file name
+ * ("excalidraw.md"), or MIME families ("image/*"). Mappings are checked in
+ * priority order, before the built-in defaults.
+ */
+export interface ExtensionMapping {
+  /** The extension pattern (e.g. "pdf", "png|jpg", "image/*") */
+  extension: string
+  /** The Lucide icon name to display for matching files */
+  icon: string
+  /** Optional icon color (hex, CSS variable, or theme color name) */
+  color?: string
+}
+
+/**
+ * Operators available for comparing a frontmatter property with a value
+ */
+export type PropertyOperator =
+  | "equals"
+  | "not-equals"
+  | "contains"
+  | "exists"
+  | "not-exists"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+
+/**
+ * A single comparison between a frontmatter property and a value
+ */
+export interface PropertyCondition {
+  /** The frontmatter property name (e.g. "status") */
+  property: string
+  /** How the property value is compared */
+  operator: PropertyOperator
+  /** The value to compare against (ignored by exists/not-exists) */
+  value: string
+}
+
+/**
+ * Maps a frontmatter property condition to an icon name
+ *
+ * Property mappings are checked in priority order (as defined in the settings
+ * array), and the first mapping whose condition matches the file's frontmatter
+ * provides the icon (e.g. status = done → check-circle, priority ≥ 3 → flame).
+ */
+export interface PropertyMapping extends PropertyCondition {
+  /** The Lucide icon name to display for files matching the condition */
+  icon: string
+  /** Optional icon color (hex, CSS variable, or theme color name) */
+  color?: string
+}
+
+/**
+ * The kinds of condition a rule can be built from
+ */
+export type RuleConditionType =
+  | "group"
+  | "tag"
+  | "path"
+  | "property"
+  | "extension"
+  | "name"
+
+/**
+ * Fields shared by every rule condition
+ */
+interface RuleConditionBase {
+  /** Whether the result of this condition is inverted (NOT) */
+  negate?: boolean
 }
 
+/**
+ * Combines child conditions with AND ("all") or OR ("any")
+ */
+export interface GroupCondition extends RuleConditionBase {
+  type: "group"
+  /** Whether all child conditions or any of them must match */
+  operator: "all" | "any"
+  /** The child conditions */
+  conditions: RuleCondition[]
+}
+
+/**
+ * Matches files carrying a tag (nested tags match unless exactMatch is set)
+ */
+export interface TagCondition extends RuleConditionBase {
+  type: "tag"
+  /** The tag name to match (without # prefix) */
+  tag: string
+  /** Whether to match only this exact tag and not its nested tags */
+  exactMatch?: boolean
+}
+
+/**
+ * Matches files by folder path, glob pattern, or regular expression
+ */
+export interface PathCondition extends RuleConditionBase {
+  type: "path"
+  /** The folder path, glob pattern, or regular expression */
+  path: string
+  /** Whether the path is a regular expression tested against the file path */
+  regex?: boolean
+}
+
+/**
+ * Matches files by a frontmatter property value
+ */
+export interface PropertyRuleCondition
+  extends RuleConditionBase,
+    PropertyCondition {
+  type: "property"
+}
+
+/**
+ * Matches files by extension (e.g. "pdf" or "png|jpg")
+ */
+export interface ExtensionCondition extends RuleConditionBase {
+  type: "extension"
+  /** One or more extensions without dots, separated by "|" or "," */
+  extension: string
+}
+
+/**
+ * Matches files by name, using a glob pattern or regular expression
+ */
+export interface NameCondition extends RuleConditionBase {
+  type: "name"
+  /** The file name pattern (matched against the name with and without extension) */
+  name: string
+  /** Whether the name is a regular expression */
+  regex?: boolean
+}
+
+/**
+ * Any condition that can appear in a rule
+ */
+export type RuleCondition =
+  | GroupCondition
+  | TagCondition
+  | PathCondition
+  | PropertyRuleCondition
+  | ExtensionCondition
+  | NameCondition
+
+/**
+ * Associates a compound condition with an icon name
+ *
+ * Rules are evaluated in priority order (as defined in the settings array),
+ * and the first enabled rule whose condition matches provides the icon. Tag,
+ * folder, and property mappings are shorthand for single-condition rules.
+ * Badge rules use the same structure but provide the badge instead.
+ */
+export interface IconRule {
+  /** Optional display name describing the rule */
+  name?: string
+  /** The root condition, usually a group */
+  condition: GroupCondition
+  /** The Lucide icon name to display for files matching the rule */
+  icon: string
+  /** Optional icon color (hex, CSS variable, or theme color name) */
+  color?: string
+  /** Whether the rule is disabled (kept but not evaluated) */
+  disabled?: boolean
+}
+
+/**
+ * The result of resolving an icon for a file
+ *
+ * Renderers receive this descriptor rather than a bare icon name so that
+ * every location displays the icon with the same styling.
+ */
+export interface ResolvedIcon {
+  /** The Lucide icon name to display */
+  icon: string
+  /** Optional icon color as configured (hex, CSS variable, or theme color name) */
+  color?: string
+  /**
+   * Optional smaller icon overlaid on the corner of the icon, resolved from
+   * the badge rules (a badge never carries a badge of its own)
+   */
+  badge?: ResolvedIcon
+  /** Whether the icon is a fallback because no source matched the file */
+  isFallback?: boolean
+  /** Whether the icon is for a link to a file that does not exist */
+  isUnresolved?: boolean
+  /**
+   * Description of the setting that provided the icon
+   * (e.g. 'Tag mapping 2: #project'), shown in tooltips and explanations
+   */
+  reason?: string
+}
+
+/**
+ * The result of resolving an icon for a folder
+ */
+export interface ResolvedFolderIcon extends ResolvedIcon {
+  /** Optional icon to display while the folder is expanded */
+  openIcon?: string
+}
+
+/**
+ * The outcome of checking one source while explaining a file's icon
+ *
+ * - "matched": the source provided the icon
+ * - "shadowed": the source has an icon too, but a source checked earlier won
+ * - "no-match": the source is enabled but has no icon for the file
+ * - "invalid": the source names an icon that is not registered, so it is
+ *   skipped
+ * - "disabled": the source is turned off in the settings
+ */
+export type IconTraceStatus =
+  | "matched"
+  | "shadowed"
+  | "no-match"
+  | "invalid"
+  | "disabled"
+
+/**
+ * One source checked while explaining a file's icon
+ */
+export interface IconTraceStep {
+  /** The id of the provider that was checked */
+  source: string
+  /** The display name of the provider */
+  name: string
+  /** The outcome of the check */
+  status: IconTraceStatus
+  /** The icon the source has for the file, for matched and shadowed sources */
+  candidate?: ResolvedIcon
+  /**
+   * The icon name as the source wrote it, when it was normalized or replaced
+   * by an alias to get the candidate's icon
+   */
+  written?: string
+  /** Why the source has no icon, for sources without a match or an unknown icon */
+  detail?: string
+}
+
+/**
+ * Explanation of how a file's icon was resolved
+ *
+ * Unlike normal resolution, every source is checked so that icons shadowed
+ * by a source with a higher priority are listed too.
+ */
+export interface IconTrace {
+  /** The path of the explained file */
+  path: string
+  /** The sources in the order they are checked */
+  steps: IconTraceStep[]
+  /** The final icon, including fallback, frontmatter color, and badge */
+  resolved: ResolvedIcon | null
+}
+
+/**
+ * The kinds of problems reported by the diagnostics report
+ *
+ * - "invalid-icon": an icon name that is not registered with Obsidian
+ * - "empty-mapping": a mapping, rule, or alias missing its key or icon
+ * - "duplicate-tag": a tag mapping for a tag that an earlier one maps
+ * - "shadowed-folder": a folder mapping that another one wins over for all
+ *   of its files, or a second folder icon for a folder
+ * - "shadowed-rule": a rule that only matches files an earlier rule matches
+ * - "normalized-icon": an icon name written differently from the registered
+ *   name, e.g. "Home" for "home"; it works, but is reported for cleanup
+ */
+export type DiagnosticKind =
+  | "invalid-icon"
+  | "empty-mapping"
+  | "duplicate-tag"
+  | "shadowed-folder"
+  | "shadowed-rule"
+  | "normalized-icon"
+
+/**
+ * The settings a diagnostic can point to
+ */
+export type DiagnosticSetting =
+  | "tagMappings"
+  | "folderMappings"
+  | "propertyMappings"
+  | "extensionMappings"
+  | "fallbackMappings"
+  | "folderIcons"
+  | "rules"
+  | "badgeRules"
+  | "iconAliases"
+  | "fallbackIcon"
+  | "unresolvedLinkIcon"
+
+/**
+ * Where the problem behind a diagnostic was found: a file in the vault, or a
+ * setting (with the index of the entry for lists)
+ */
+export type DiagnosticLocation =
+  | { type: "file"; path: string }
+  | { type: "setting"; setting: DiagnosticSetting; index?: number }
+
+/**
+ * A problem found by the diagnostics report
+ */
+export interface Diagnostic {
+  /** The kind of problem */
+  kind: DiagnosticKind
+  /** Description of the problem, naming the mapping or source */
+  message: string
+  /** Where the problem can be fixed */
+  location: DiagnosticLocation
+}
+
+/**
+ * The places icons are rendered in, matching the rendering location toggles
+ *
+ * - "wikilinks": links in reading and live preview mode, properties, and
+ *   link suggestions
+ * - "fileView": tab headers and inline titles
+ * - "fileLists": the file explorer and search results
+ */
+export type RenderLocation = "wikilinks" | "fileView" | "fileLists"
+
+/**
+ * The settings lists that hold rules: icon rules and badge rules
+ */
+export type RuleSet = "rules" | "badgeRules"
+
+/**
+ * An icon returned by an icon provider
+ */
+export interface ProviderIcon {
+  /** The icon name (Lucide, custom pack "pack:name", or a single emoji) */
+  icon: string
+  /** Optional icon color (hex, CSS variable, or theme color name) */
+  color?: string
+  /** Description of why the file gets the icon; defaults to the provider name */
+  reason?: string
+}
+
+/**
+ * A source of file icons
+ *
+ * Providers are checked in the order configured in the settings, and the
+ * first enabled provider returning an icon wins. The built-in sources are
+ * providers too; other plugins register their own through the public API
+ * (see SimpleIconsApi.registerIconProvider).
+ */
+export interface IconProvider {
+  /** Unique identifier, stored in the settings (e.g. "my-plugin:tasks") */
+  id: string
+  /** Name shown in the settings and in icon explanations */
+  name: string
+  /**
+   * Default position in the priority order: lower values are checked first.
+   * The built-in sources use 100 (frontmatter) to 700 (folders).
+   */
+  priority: number
+  /**
+   * Returns the icon for a file
+   *
+   * @param file - The file to resolve an icon for
+   * @param metadata - The cached metadata of the file, if any
+   * @returns The icon, or null if the provider has none for the file
+   */
+  getIcon(file: TFile, metadata: CachedMetadata | null): ProviderIcon | null
+  /**
+   * Returns the icon a file that does not exist yet would get, used for
+   * unresolved links. Only providers that work from the path implement it.
+   *
+   * @param path - The vault path of the new file
+   * @returns The icon, or null if the provider has none for the path
+   */
+  getIconForPath?(path: string): ProviderIcon | null
+  /**
+   * Explains why the provider has no icon for a file, shown when explaining
+   * a file's icon
+   *
+   * @param file - The file without an icon from this provider
+   * @param metadata - The cached metadata of the file, if any
+   * @returns A short explanation
+   */
+  describeNoMatch?(file: TFile, metadata: CachedMetadata | null): string
+}
+
+/**
+ * The built-in icon providers
+ */
+export type IconSource =
+  | "frontmatter"
+  | "inlineFields"
+  | "rules"
+  | "properties"
+  | "tags"
+  | "extensions"
+  | "folderNotes"
+  | "folders"
+
+/**
+ * Display names for each icon source
+ */
+export const SOURCE_LABELS: Record<IconSource, string> = {
+  frontmatter: "Frontmatter",
+  inlineFields: "Inline fields",
+  rules: "Rules",
+  properties: "Properties",
+  tags: "Tags",
+  extensions: "Extensions",
+  folderNotes: "Folder notes",
+  folders: "Folders",
+}
+
+/**
+ * The setting that enables each built-in icon provider
+ */
+export const SOURCE_ENABLE_SETTINGS: Record<
+  IconSource,
+  | "enableFrontmatter"
+  | "enableInlineFields"
+  | "enableRules"
+  | "enableProperties"
+  | "enableTags"
+  | "enableExtensions"
+  | "enableFolderNotes"
+  | "enableFolders"
+> = {
+  frontmatter: "enableFrontmatter",
+  inlineFields: "enableInlineFields",
+  rules: "enableRules",
+  properties: "enableProperties",
+  tags: "enableTags",
+  extensions: "enableExtensions",
+  folderNotes: "enableFolderNotes",
+  folders: "enableFolders",
+}
+
+/**
+ * Default order in which icon sources are checked
+ */
+export const DEFAULT_SOURCE_ORDER: IconSource[] = [
+  "frontmatter",
+  "inlineFields",
+  "rules",
+  "properties",
+  "tags",
+  "extensions",
+  "folderNotes",
+  "folders",
+]
+
 /**
  * Complete plugin settings configuration
  *
@@ -47,12 +567,63 @@ export interface PluginSettings {
   // Feature toggles
   /** Whether to read icons from file frontmatter */
   enableFrontmatter: boolean
-  /** The frontmatter property name to read icon from (default: "icon") */
-  frontmatterProperty: string
+  /**
+   * The frontmatter property names to read the icon from, tried in order
+   * (default: ["icon"]). Dots address nested properties (e.g. "meta.icon").
+   */
+  frontmatterProperties: string[]
+  /** The frontmatter property name to read icon color from (default: "icon-color") */
+  frontmatterColorProperty: string
+  /**
+   * Whether to read icons from inline fields in the note body (e.g.
+   * "icon:: rocket"), using the frontmatter property names
+   */
+  enableInlineFields: boolean
   /** Whether to resolve icons based on file tags */
   enableTags: boolean
+  /** How to choose between several matching tag mappings */
+  tagMatchMode: TagMatchMode
   /** Whether to resolve icons based on folder paths */
   enableFolders: boolean
+  /** Whether to resolve icons based on frontmatter property values */
+  enableProperties: boolean
+  /** Whether to resolve icons based on compound rules */
+  enableRules: boolean
+  /** Whether to resolve icons based on file extensions */
+  enableExtensions: boolean
+  /** Whether to apply the built-in extension mappings after the user's own */
+  useBuiltInExtensionMappings: boolean
+  /** Whether files inherit the frontmatter icon of their nearest folder note */
+  enableFolderNotes: boolean
+  /**
+   * Folder note file names without extension, where "{folder}" stands for the
+   * folder's name (e.g. "{folder}" for projects/Alpha/Alpha.md, or "index")
+   */
+  folderNoteNames: string[]
+  /**
+   * The order in which icon providers are checked (first match wins), as
+   * provider ids; providers missing here are placed by their priority
+   */
+  sourceOrder: string[]
+  /** Ids of providers registered by other plugins that are turned off */
+  disabledProviders: string[]
+  /** Whether to overlay badges from the badge rules on file icons */
+  enableBadges: boolean
+  /** Whether files no source matches get a fallback icon */
+  enableFallbackIcon: boolean
+  /** The fallback icon for files without a matching fallback mapping */
+  fallbackIcon: string
+  /** Where fallback icons are shown */
+  fallbackLocations: Record<RenderLocation, boolean>
+  /** Whether links to files that don't exist get an icon */
+  enableUnresolvedLinkIcon: boolean
+  /** The icon for links to files that don't exist (empty for none) */
+  unresolvedLinkIcon: string
+  /**
+   * Whether links to files that don't exist show the icon the file would get
+   * once created, when its location or extension determines one
+   */
+  predictUnresolvedLinkIcons: boolean
 
   // Rendering location toggles
   /** Whether to display icons next to wikilinks in reading and live preview mode */
@@ -61,39 +632,162 @@ export interface PluginSettings {
   renderInFileView: boolean
   /** Whether to display icons in file lists (explorer, search results) */
   renderInFileLists: boolean
+  /** Whether to display icons on folders in the file explorer */
+  renderFolderIcons: boolean
+  /** Whether hovering an icon shows which setting provided it */
+  showIconTooltips: boolean
+
+  // Custom icons
+  /** Vault folder containing custom SVG icon packs (empty to disable) */
+  iconPackFolder: string
+  /** Alternative icon names, replaced by the icon name before rendering */
+  iconAliases: IconAlias[]
+  /** Whether to replace old names of renamed Lucide icons automatically */
+  useBuiltInIconAliases: boolean
 
   // Associations
   /** Ordered list of tag-to-icon mappings (checked in priority order) */
   tagMappings: TagMapping[]
-  /** List of folder-to-icon mappings (deepest match wins) */
+  /** List of folder-to-icon mappings (most specific match wins) */
   folderMappings: FolderMapping[]
+  /** Ordered list of property-value-to-icon mappings (checked in priority order) */
+  propertyMappings: PropertyMapping[]
+  /** Icons set directly on folders (shown on the folders themselves) */
+  folderIcons: FolderIcon[]
+  /** Ordered list of extension-to-icon mappings (checked in priority order) */
+  extensionMappings: ExtensionMapping[]
+  /** Ordered list of fallback icons per file type (checked in priority order) */
+  fallbackMappings: ExtensionMapping[]
+  /** Ordered list of compound rules (checked in priority order) */
+  rules: IconRule[]
+  /** Ordered list of badge rules (checked in priority order) */
+  badgeRules: IconRule[]
 }
 
 /**
  * Default settings used when plugin is first installed
  *
- * Frontmatter is enabled by default, and all rendering locations are enabled.
- * Tags and folders are disabled by default and must be explicitly enabled.
+ * Frontmatter and extensions (with the built-in mappings) are enabled by
+ * default, and all rendering locations are enabled. Inline fields, rules,
+ * properties, tags, folder notes, folders, badges, the fallback icon and
+ * unresolved link icons are disabled by default and must be explicitly
+ * enabled. Once enabled, the fallback icon is only shown in file lists, where
+ * it keeps the icons aligned.
  */
 export const DEFAULT_SETTINGS: PluginSettings = {
   enableFrontmatter: true,
-  frontmatterProperty: "icon",
+  frontmatterProperties: ["icon"],
+  frontmatterColorProperty: "icon-color",
+  enableInlineFields: false,
   enableTags: false,
+  tagMatchMode: "priority",
   enableFolders: false,
+  enableProperties: false,
+  enableRules: false,
+  enableExtensions: true,
+  useBuiltInExtensionMappings: true,
+  enableFolderNotes: false,
+  folderNoteNames: ["{folder}", "index"],
+  sourceOrder: [...DEFAULT_SOURCE_ORDER],
+  disabledProviders: [],
+  enableBadges: false,
+  enableFallbackIcon: false,
+  fallbackIcon: "file",
+  fallbackLocations: { wikilinks: false, fileView: false, fileLists: true },
+  enableUnresolvedLinkIcon: false,
+  unresolvedLinkIcon: "file-plus",
+  predictUnresolvedLinkIcons: true,
   renderInWikilinks: true,
   renderInFileView: true,
   renderInFileLists: true,
+  renderFolderIcons: true,
+  showIconTooltips: false,
+  iconPackFolder: "",
+  iconAliases: [],
+  useBuiltInIconAliases: true,
   tagMappings: [],
   folderMappings: [],
+  folderIcons: [],
+  propertyMappings: [],
+  extensionMappings: [],
+  fallbackMappings: [],
+  rules: [],
+  badgeRules: [],
 }
 
 /**
  * Cache for resolved icons indexed by file path
  *
  * This cache stores the result of icon resolution for each file to avoid
- * re-computing icons multiple times. Values can be a string (icon name) or
+ * re-computing icons multiple times. Values can be a resolved icon or
  * null (no icon found). The cache is cleared when settings change.
  */
 export interface IconCache {
-  [filePath: string]: string | null
+  [filePath: string]: ResolvedIcon | null
+}
+
+/**
+ * Cache for resolved folder icons indexed by folder path
+ */
+export interface FolderIconCache {
+  [folderPath: string]: ResolvedFolderIcon | null
+}
+
+/**
+ * A change of a file's resolved icon, see IconResolver.collectIconChanges
+ */
+export interface IconChange {
+  /** The file whose icon changed */
+  file: TFile
+  /** The icon before the change, or null if the file had none */
+  oldIcon: ResolvedIcon | null
+  /** The icon after the change, or null if the file has none now */
+  newIcon: ResolvedIcon | null
+}
+
+/**
+ * An icon as reported by the public API (see SimpleIconsApi)
+ *
+ * Public API types are kept separate from the internal ones, so that other
+ * plugins are not affected when the internal types change.
+ */
+export interface ApiIcon {
+  /** The icon name (Lucide, custom pack "pack:name", or a single emoji) */
+  icon: string
+  /** The icon color, if any */
+  color?: string
+  /** The badge shown on the icon, if any */
+  badge?: ApiIcon
+  /** Whether this is the fallback icon shown when nothing else matches */
+  isFallback: boolean
+  /** The setting that provided the icon, e.g. "Tag mapping 2: #project" */
+  reason?: string
+}
+
+/**
+ * The outcome of one icon source, as reported by the public API
+ */
+export interface ApiIconTraceStep {
+  /** The source identifier, e.g. "frontmatter" or "tags" */
+  source: string
+  /** The display name of the source */
+  label: string
+  /** The outcome: "matched", "shadowed", "no-match", "invalid", or "disabled" */
+  status: string
+  /** The icon the source has for the file, for matched and shadowed sources */
+  candidate?: ApiIcon
+  /** Why the source has no icon, for sources without a match */
+  detail?: string
+}
+
+/**
+ * Explanation of a file's icon, as reported by the public API
+ */
+export interface ApiIconTrace {
+  /** The path of the explained file */
+  path: string
+  /** The sources in the order they are checked */
+  steps: ApiIconTraceStep[]
+  /** The final icon, or null if the file has none */
+  icon: ApiIcon | null
 }